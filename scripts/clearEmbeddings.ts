@@ -2,8 +2,16 @@ import { config as loadEnv } from 'dotenv';
 import { File as NodeFile } from 'node:buffer';
 import { createInterface } from 'node:readline/promises';
 import { stdin, stdout } from 'node:process';
+import { getEmbeddingCache } from '../src/lib/embeddings';
 import { clearVectorCache, loadVectorCache } from '../src/lib/pipeline/vectorCache';
-import { getPineconeStore } from '../src/lib/vectorstore';
+import { getEmbeddingModelVersion } from '../src/lib/providers/modelProvider';
+import {
+  getVectorStore,
+  resolveActiveNamespace,
+  resolveBuildNamespace,
+  resolveVectorStoreBackend,
+} from '../src/lib/vectorstore';
+import { clearLexicalIndex } from '../src/lib/retrieval';
 
 const globalWithFile = globalThis as unknown as { File?: typeof NodeFile };
 if (typeof globalWithFile.File === 'undefined') {
@@ -16,6 +24,10 @@ loadEnv({ path: '.env.local', override: true });
 const REQUIRED_ENV_VARS = ['PINECONE_API_KEY'];
 
 function ensureEnv() {
+  if (resolveVectorStoreBackend() === 'local') {
+    return;
+  }
+
   const missing = REQUIRED_ENV_VARS.filter((key) => !process.env[key]);
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
@@ -35,6 +47,11 @@ function flagEnabled(name: string) {
   return process.argv.includes(name);
 }
 
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
 function envToggle(name: string): boolean {
   const value = process.env[name];
   if (!value) {
@@ -58,25 +75,42 @@ async function main() {
 
   const force = flagEnabled('--force') || flagEnabled('--yes') || envToggle('CLEAR_EMBEDDINGS_FORCE');
   const dryRun = flagEnabled('--dry-run');
-  const skipPinecone = flagEnabled('--skip-pinecone');
+  const skipStore = flagEnabled('--skip-store') || flagEnabled('--skip-pinecone');
   const keepCache = flagEnabled('--keep-cache');
-
-  const cacheSnapshot = await loadVectorCache();
+  // The embedding cache is kept by default so the next vectorize run re-embeds for free.
+  const purgeEmbeddingCache = flagEnabled('--purge-embedding-cache');
+  const backendLabel = resolveVectorStoreBackend() === 'local' ? 'local vector store' : 'Pinecone';
+
+  // Clears the namespace vectorize writes to unless another one is named.
+  const requestedNamespace = readOption('--namespace');
+  const target = requestedNamespace
+    ? { namespace: requestedNamespace }
+    : resolveBuildNamespace(getEmbeddingModelVersion());
+  const { namespace } = target;
+  const isActive = (await resolveActiveNamespace()).namespace === namespace;
+
+  const cacheSnapshot = await loadVectorCache(namespace);
   const cachedPages = Object.keys(cacheSnapshot.pages).length;
 
-  const store = skipPinecone ? null : await getPineconeStore();
-  const namespace = store?.getNamespace();
+  const store = skipStore ? null : await getVectorStore(target);
 
   const tasks: string[] = [];
-  if (!skipPinecone) {
-    tasks.push(`delete all vectors from Pinecone namespace "${namespace}"`);
+  if (!skipStore) {
+    tasks.push(
+      `delete all vectors from ${backendLabel} namespace "${namespace}"${
+        isActive ? ' (currently serving queries)' : ''
+      } and its lexical index`
+    );
   }
   if (!keepCache) {
-    tasks.push('remove local data/vector-cache.json snapshot');
+    tasks.push(`remove the local vector cache for "${namespace}"`);
+  }
+  if (purgeEmbeddingCache) {
+    tasks.push('remove the persistent embedding cache');
   }
 
   if (tasks.length === 0) {
-    console.log('No clearing operations requested. Use --skip-pinecone/--keep-cache wisely.');
+    console.log('No clearing operations requested. Use --skip-store/--keep-cache wisely.');
     return;
   }
 
@@ -97,18 +131,25 @@ async function main() {
     return;
   }
 
-  if (!skipPinecone && store) {
-    console.log(`Clearing Pinecone namespace "${namespace}"...`);
+  if (!skipStore && store) {
+    console.log(`Clearing ${backendLabel} namespace "${namespace}"...`);
     await store.clearNamespace();
-    console.log('Pinecone namespace cleared.');
+    await clearLexicalIndex(namespace);
+    console.log(`${backendLabel} namespace and lexical index cleared.`);
   }
 
   if (!keepCache) {
     console.log('Removing local vector cache...');
-    await clearVectorCache();
+    await clearVectorCache(namespace);
     console.log('Local vector cache removed.');
   }
 
+  if (purgeEmbeddingCache) {
+    console.log('Removing embedding cache...');
+    await (await getEmbeddingCache()).clear();
+    console.log('Embedding cache removed.');
+  }
+
   console.log('Embedding storage cleared successfully. You can now rerun the vectorization script.');
 }
 
@@ -0,0 +1,203 @@
+import path from 'node:path';
+import { diffVectorizationRuns, type PageDiffEntry, type RunDiff } from '../src/lib/pipeline/runDiff';
+import {
+  listVectorizationHistory,
+  readVectorizationLog,
+  type VectorizationHistoryEntry,
+  type VectorizationLog,
+} from '../src/lib/pipeline/vectorLog';
+
+const DEFAULT_DETAIL_LIMIT = 25;
+const OPTIONS_WITH_VALUES = ['--days', '--limit'];
+
+function hasFlag(name: string) {
+  return process.argv.includes(name);
+}
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readPositionalArgs(): string[] {
+  const args = process.argv.slice(2);
+  return args.filter(
+    (arg, idx) => !arg.startsWith('--') && !(idx > 0 && OPTIONS_WITH_VALUES.includes(args[idx - 1]))
+  );
+}
+
+function printUsage() {
+  console.log(`Usage: npm run vectorize:diff -- [older] [newer] [--days N] [--limit N] [--list]
+
+Compares the knowledge base recorded by two vectorize runs.
+
+  older, newer  Run log paths, or a history offset (0 = latest run, 1 = the run before, ...).
+                Defaults to the two most recent runs; with one argument it is compared with the latest.
+  --days N      Compare the latest run with the newest run at least N days older.
+  --limit N     Pages listed per section (default ${DEFAULT_DETAIL_LIMIT}; 0 lists all).
+  --list        List the run logs kept in logs/vectorize-history.`);
+}
+
+function resolveRun(arg: string, history: VectorizationHistoryEntry[]): string {
+  if (/^\d+$/.test(arg)) {
+    const entry = history[history.length - 1 - Number(arg)];
+    if (!entry) {
+      throw new Error(`Run history only holds ${history.length} run${history.length === 1 ? '' : 's'}; offset ${arg} is out of range.`);
+    }
+    return entry.path;
+  }
+  return path.resolve(arg);
+}
+
+async function resolveRunByAge(days: number, history: VectorizationHistoryEntry[], newer: VectorizationLog): Promise<string> {
+  const cutoff = Date.parse(newer.generatedAt) - days * 24 * 60 * 60 * 1000;
+  for (let idx = history.length - 1; idx >= 0; idx -= 1) {
+    const log = await readVectorizationLog(history[idx].path);
+    if (Date.parse(log.generatedAt) <= cutoff) {
+      return history[idx].path;
+    }
+  }
+  throw new Error(`No run in logs/vectorize-history is at least ${days} day${days === 1 ? '' : 's'} older than ${newer.generatedAt}.`);
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = after - before;
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, col) => Math.max(header.length, ...rows.map((row) => row[col].length)));
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  ');
+
+  console.log(formatRow(headers));
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+  rows.forEach((row) => console.log(formatRow(row)));
+}
+
+function describePage(page: PageDiffEntry): string {
+  return `${page.pageTitle} (${page.spaceKey ? `${page.spaceKey}, ` : ''}${page.pageId})`;
+}
+
+function printPages(title: string, pages: PageDiffEntry[], limit: number, describe: (page: PageDiffEntry) => string) {
+  if (pages.length === 0) {
+    return;
+  }
+
+  console.log(`\n${title} (${pages.length}):`);
+  const shown = limit > 0 ? pages.slice(0, limit) : pages;
+  shown.forEach((page) => console.log(`  • ${describe(page)}`));
+  if (shown.length < pages.length) {
+    console.log(`  … ${pages.length - shown.length} more (use --limit 0 to list all)`);
+  }
+}
+
+function printDiff(diff: RunDiff, fromPath: string, toPath: string, limit: number) {
+  console.log(`Older run: ${diff.from.generatedAt} (${path.relative(process.cwd(), fromPath)})`);
+  console.log(`Newer run: ${diff.to.generatedAt} (${path.relative(process.cwd(), toPath)})`);
+  if (diff.from.embedVersion === diff.to.embedVersion) {
+    console.log(`Embedding model version: ${diff.to.embedVersion}`);
+  } else {
+    console.log(`Embedding model version changed: ${diff.from.embedVersion} → ${diff.to.embedVersion}`);
+  }
+
+  console.log('\nSummary:');
+  const { totals } = diff;
+  printTable(
+    ['Space', 'Pages before', 'Pages after', 'Added', 'Removed', 'Re-embedded', 'Chunks before', 'Chunks after', 'Chunk Δ'],
+    [
+      ...diff.spaces.map((space) => [
+        space.spaceKey ?? '(none)',
+        String(space.pagesBefore),
+        String(space.pagesAfter),
+        String(space.addedPages),
+        String(space.removedPages),
+        String(space.reembeddedPages),
+        String(space.chunksBefore),
+        String(space.chunksAfter),
+        formatDelta(space.chunksBefore, space.chunksAfter),
+      ]),
+      [
+        'Total',
+        String(totals.pagesBefore),
+        String(totals.pagesAfter),
+        String(totals.addedPages),
+        String(totals.removedPages),
+        String(totals.reembeddedPages),
+        String(totals.chunksBefore),
+        String(totals.chunksAfter),
+        formatDelta(totals.chunksBefore, totals.chunksAfter),
+      ],
+    ]
+  );
+
+  printPages('Pages added', diff.addedPages, limit, (page) => `${describePage(page)} — ${page.chunksAfter} chunks`);
+  printPages('Pages removed', diff.removedPages, limit, (page) => `${describePage(page)} — ${page.chunksBefore} chunks`);
+  printPages('Pages re-embedded', diff.reembeddedPages, limit, describePage);
+  printPages(
+    'Chunk count changes',
+    diff.chunkCountChanges,
+    limit,
+    (page) =>
+      `${describePage(page)} — ${page.chunksBefore} → ${page.chunksAfter} (${formatDelta(
+        page.chunksBefore ?? 0,
+        page.chunksAfter ?? 0
+      )})`
+  );
+  printPages(
+    'Embedding model version changes',
+    diff.embedVersionChanges,
+    limit,
+    (page) => `${describePage(page)} — ${page.embedVersionBefore} → ${page.embedVersionAfter}`
+  );
+}
+
+async function main() {
+  if (hasFlag('--help') || hasFlag('-h')) {
+    printUsage();
+    return;
+  }
+
+  const history = await listVectorizationHistory();
+
+  if (hasFlag('--list')) {
+    if (history.length === 0) {
+      console.log('No runs recorded in logs/vectorize-history yet.');
+      return;
+    }
+    for (let idx = history.length - 1; idx >= 0; idx -= 1) {
+      const log = await readVectorizationLog(history[idx].path);
+      const embedded = log.embeddedPages.length;
+      const pages = log.knowledgeBase?.length ?? '?';
+      console.log(
+        `${String(history.length - 1 - idx).padStart(3)}  ${log.generatedAt}  ${log.embedVersion}  ${pages} pages, ${embedded} embedded`
+      );
+    }
+    return;
+  }
+
+  const positional = readPositionalArgs();
+  const days = readOption('--days');
+  const limit = Number(readOption('--limit') ?? DEFAULT_DETAIL_LIMIT);
+
+  let fromPath: string;
+  let toPath: string;
+  if (days !== undefined) {
+    toPath = resolveRun(positional[0] ?? '0', history);
+    fromPath = await resolveRunByAge(Number(days), history, await readVectorizationLog(toPath));
+  } else if (positional.length >= 2) {
+    fromPath = resolveRun(positional[0], history);
+    toPath = resolveRun(positional[1], history);
+  } else {
+    fromPath = resolveRun(positional[0] ?? '1', history);
+    toPath = resolveRun('0', history);
+  }
+
+  const diff = diffVectorizationRuns(await readVectorizationLog(fromPath), await readVectorizationLog(toPath));
+  printDiff(diff, fromPath, toPath, limit);
+}
+
+main().catch((error) => {
+  console.error('Failed to diff vectorization runs:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+import { config as loadEnv } from 'dotenv';
+import { File as NodeFile } from 'node:buffer';
+import { peekRunCheckpoint } from '../src/lib/pipeline/checkpoint';
+import { loadVectorCache } from '../src/lib/pipeline/vectorCache';
+import { getEmbeddingModelVersion } from '../src/lib/providers/modelProvider';
+import {
+  VERSIONED_NAMESPACES,
+  getVectorStore,
+  listKnownNamespaces,
+  loadActiveNamespace,
+  resolveActiveNamespace,
+  resolveBaseNamespace,
+  resolveBuildNamespace,
+  resolveVectorStoreBackend,
+  saveActiveNamespace,
+  versionedNamespace,
+} from '../src/lib/vectorstore';
+
+const globalWithFile = globalThis as unknown as { File?: typeof NodeFile };
+if (typeof globalWithFile.File === 'undefined') {
+  globalWithFile.File = NodeFile;
+}
+
+loadEnv();
+loadEnv({ path: '.env.local', override: true });
+
+interface NamespaceReport {
+  namespace: string;
+  pages: number;
+  chunks: number;
+  embedVersions: string[];
+  /** Reasons the namespace should not serve queries. */
+  problems: string[];
+}
+
+function hasFlag(name: string) {
+  return process.argv.includes(name);
+}
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function printUsage() {
+  console.log(`Usage: npm run namespaces -- [status | validate [namespace] | promote [namespace] | rollback] [options]
+
+  status               Show the active namespace, the namespace vectorize writes to and every known namespace.
+  validate [ns]        Check that a namespace is complete and built with a single embedding model.
+                       Defaults to the namespace vectorize writes to. Add --query "text" to run a sample search.
+  promote [ns]         Validate a namespace and switch queries to it. Pass --force to skip failed checks.
+  rollback             Switch queries back to the namespace that was active before the last promote.`);
+}
+
+async function inspectNamespace(namespace: string): Promise<NamespaceReport> {
+  const cache = await loadVectorCache(namespace);
+  const entries = Object.values(cache.pages);
+  const embedVersions = [...new Set(entries.map((entry) => entry.embedVersion))].sort();
+  const problems: string[] = [];
+
+  if (entries.length === 0) {
+    problems.push('no pages have been embedded into it');
+  }
+  if (embedVersions.length > 1) {
+    problems.push(`it mixes vectors from ${embedVersions.join(', ')}`);
+  }
+  if (
+    embedVersions.length === 1 &&
+    namespace !== resolveBaseNamespace() &&
+    namespace !== versionedNamespace(embedVersions[0])
+  ) {
+    problems.push(`its pages were embedded with ${embedVersions[0]}, which does not match the namespace name`);
+  }
+
+  const checkpoint = await peekRunCheckpoint();
+  if (checkpoint?.namespace === namespace) {
+    problems.push(`a vectorize run into it was interrupted at ${checkpoint.updatedAt}; resume it with npm run vectorize -- --resume`);
+  }
+
+  return {
+    namespace,
+    pages: entries.length,
+    chunks: entries.reduce((sum, entry) => sum + entry.chunkCount, 0),
+    embedVersions,
+    problems,
+  };
+}
+
+function describeReport(report: NamespaceReport): string {
+  return `${report.pages} pages, ${report.chunks} chunks, ${report.embedVersions.join(', ') || 'no embeddings'}`;
+}
+
+async function printStatus() {
+  const backend = resolveVectorStoreBackend();
+  const active = await loadActiveNamespace(backend);
+  const activeNamespace = (await resolveActiveNamespace(backend)).namespace;
+  const buildNamespace = resolveBuildNamespace(getEmbeddingModelVersion()).namespace;
+
+  console.log(`Vector store: ${backend}`);
+  console.log(`Versioned namespaces: ${VERSIONED_NAMESPACES ? 'enabled' : 'disabled (VECTOR_NAMESPACE_VERSIONING=false)'}`);
+  console.log(
+    `Active namespace: ${activeNamespace}${
+      active ? ` (promoted ${active.promotedAt ?? 'at an unknown time'})` : ' (configured namespace, nothing promoted yet)'
+    }`
+  );
+  if (active?.previous) {
+    console.log(`Rollback target: ${active.previous.namespace}`);
+  }
+  console.log(`Vectorize writes to: ${buildNamespace}`);
+
+  console.log('\nNamespaces with local build data:');
+  for (const namespace of await listKnownNamespaces()) {
+    const report = await inspectNamespace(namespace);
+    const labels = [
+      namespace === activeNamespace ? 'active' : null,
+      namespace === buildNamespace ? 'build target' : null,
+    ].filter(Boolean);
+    console.log(`  • ${namespace}${labels.length ? ` [${labels.join(', ')}]` : ''}: ${describeReport(report)}`);
+    report.problems.forEach((problem) => console.log(`      ⚠ ${problem}`));
+  }
+}
+
+async function validate(namespace: string, sampleQuery?: string): Promise<NamespaceReport> {
+  const report = await inspectNamespace(namespace);
+  console.log(`Namespace ${namespace}: ${describeReport(report)}`);
+
+  if (sampleQuery && report.embedVersions.length === 1) {
+    const store = await getVectorStore({ namespace, embedVersion: report.embedVersions[0] });
+    const results = await store.search(sampleQuery, 5);
+    console.log(`Sample query "${sampleQuery}" returned ${results.length} result${results.length === 1 ? '' : 's'}:`);
+    results.forEach((result) => {
+      console.log(`  ${result.score.toFixed(4)}  ${result.chunk.title}${result.chunk.heading ? ` › ${result.chunk.heading}` : ''}`);
+    });
+    if (results.length === 0) {
+      report.problems.push('the sample query returned no results');
+    }
+  }
+
+  if (report.problems.length === 0) {
+    console.log('Validation passed.');
+  } else {
+    console.log('Validation failed:');
+    report.problems.forEach((problem) => console.log(`  • ${problem}`));
+  }
+  return report;
+}
+
+async function promote(namespace: string, force: boolean) {
+  const backend = resolveVectorStoreBackend();
+  const current = await resolveActiveNamespace(backend);
+  if (current.namespace === namespace) {
+    console.log(`${namespace} is already the active namespace.`);
+    return;
+  }
+
+  const report = await validate(namespace, readOption('--query'));
+  if (report.problems.length > 0 && !force) {
+    throw new Error(`Refusing to promote ${namespace}. Fix the problems above or pass --force.`);
+  }
+  if (report.embedVersions.length !== 1) {
+    throw new Error(`Cannot promote ${namespace}: queries need a single embedding model to embed with.`);
+  }
+
+  // Record the model of the outgoing namespace too, so a rollback queries it with the right model.
+  const previousVersions = current.embedVersion ? [current.embedVersion] : (await inspectNamespace(current.namespace)).embedVersions;
+  const outgoing = await loadActiveNamespace(backend);
+  await saveActiveNamespace(
+    {
+      namespace,
+      embedVersion: report.embedVersions[0],
+      promotedAt: new Date().toISOString(),
+      previous: {
+        namespace: current.namespace,
+        embedVersion: previousVersions.length === 1 ? previousVersions[0] : undefined,
+        promotedAt: outgoing?.promotedAt,
+      },
+    },
+    backend
+  );
+  console.log(`Promoted ${namespace}; queries now read ${report.embedVersions[0]} vectors from it.`);
+  console.log(`Roll back with: npm run namespaces -- rollback (returns to ${current.namespace})`);
+}
+
+async function rollback() {
+  const backend = resolveVectorStoreBackend();
+  const active = await loadActiveNamespace(backend);
+  if (!active?.previous) {
+    throw new Error('Nothing to roll back to: no namespace was active before the last promote.');
+  }
+
+  await saveActiveNamespace(
+    {
+      namespace: active.previous.namespace,
+      embedVersion: active.previous.embedVersion,
+      promotedAt: new Date().toISOString(),
+      previous: { namespace: active.namespace, embedVersion: active.embedVersion, promotedAt: active.promotedAt },
+    },
+    backend
+  );
+  console.log(`Rolled back to ${active.previous.namespace}. Run rollback again to return to ${active.namespace}.`);
+}
+
+async function main() {
+  const [command = 'status', target] = process.argv.slice(2).filter((arg) => !arg.startsWith('--') && arg !== readOption('--query'));
+  const defaultTarget = () => resolveBuildNamespace(getEmbeddingModelVersion()).namespace;
+
+  switch (command) {
+    case 'status':
+      await printStatus();
+      return;
+    case 'validate': {
+      const report = await validate(target ?? defaultTarget(), readOption('--query'));
+      process.exitCode = report.problems.length > 0 ? 1 : 0;
+      return;
+    }
+    case 'promote':
+      await promote(target ?? defaultTarget(), hasFlag('--force'));
+      return;
+    case 'rollback':
+      await rollback();
+      return;
+    default:
+      printUsage();
+      process.exitCode = command === 'help' ? 0 : 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('Namespace command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
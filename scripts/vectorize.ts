@@ -1,6 +1,13 @@
 import { config as loadEnv } from 'dotenv';
 import { File as NodeFile } from 'node:buffer';
+import path from 'node:path';
+import { EMBEDDING_CACHE_ENABLED, getEmbeddingCache, getEmbeddingCacheStats } from '../src/lib/embeddings';
 import { buildKnowledgeBase } from '../src/lib/pipeline/build';
+import { resolvePiiScanMode } from '../src/lib/pipeline/pii';
+import { loadSpaceConfigs } from '../src/lib/pipeline/spaceConfig';
+import { getProviderDefinition, isMockProvider } from '../src/lib/providers/registry';
+import { formatCost } from '../src/lib/providers/usage';
+import { resolveActiveNamespace, resolveVectorStoreBackend } from '../src/lib/vectorstore';
 
 const globalWithFile = globalThis as unknown as { File?: typeof NodeFile };
 if (typeof globalWithFile.File === 'undefined') {
@@ -10,21 +17,29 @@ if (typeof globalWithFile.File === 'undefined') {
 loadEnv();
 loadEnv({ path: '.env.local', override: true });
 
-const REQUIRED_ENV_VARS = [
-  'OPENAI_API_KEY',
-  'PINECONE_API_KEY',
-  'PINECONE_INDEX_NAME',
-];
+const PINECONE_ENV_VARS = ['PINECONE_API_KEY', 'PINECONE_INDEX_NAME'];
 
 const MAX_RETRIES = Number(process.env.VECTORIZE_MAX_RETRIES ?? '3');
 const RETRY_DELAY_MS = Number(process.env.VECTORIZE_RETRY_DELAY_MS ?? '5000');
 
+// The embedding provider's API key; the mock provider and keyless endpoints such as Ollama need none.
+function providerEnvVars(): string[] {
+  const provider = getProviderDefinition();
+  return !isMockProvider(provider) && provider.apiKeyEnv ? [provider.apiKeyEnv] : [];
+}
+
 function validateEnv() {
-  const missing = REQUIRED_ENV_VARS.filter((key) => !process.env[key]);
+  const usePinecone = resolveVectorStoreBackend() === 'pinecone';
+  const required = usePinecone ? [...providerEnvVars(), ...PINECONE_ENV_VARS] : providerEnvVars();
+  const missing = required.filter((key) => !process.env[key]);
   if (missing.length) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
+  if (!usePinecone) {
+    return;
+  }
+
   const hasHost = Boolean(process.env.PINECONE_HOST || process.env.PINECONE_INDEX_HOST);
   const hasEnvironment = Boolean(process.env.PINECONE_ENVIRONMENT);
 
@@ -33,23 +48,58 @@ function validateEnv() {
   }
 }
 
+function hasFlag(name: string) {
+  return process.argv.includes(name);
+}
+
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function runVectorization() {
+async function runVectorization(resume: boolean) {
   validateEnv();
 
   const maxPages = Number(process.env.CONFLUENCE_MAX_PAGES ?? '5');
   const pageLimit = Number(process.env.CONFLUENCE_PAGE_LIMIT ?? '25');
   const chunkMinTokens = Number(process.env.CHUNK_MIN_TOKENS ?? '300');
   const chunkMaxTokens = Number(process.env.CHUNK_MAX_TOKENS ?? '800');
+  const chunkOverlapTokens = Number(process.env.CHUNK_OVERLAP_TOKENS ?? '0');
+  const incremental = hasFlag('--incremental') || process.env.CONFLUENCE_INCREMENTAL === 'true';
+  const pruneDeletedPages = !hasFlag('--no-prune');
+  const pruneDryRun = hasFlag('--prune-dry-run') || process.env.VECTORIZE_PRUNE_DRY_RUN === 'true';
+  const piiScanMode = resolvePiiScanMode();
+  const checkpointEvery = Number(process.env.VECTORIZE_CHECKPOINT_PAGES ?? '10');
+  const concurrency = Number(process.env.VECTORIZE_CONCURRENCY ?? '4');
+  const embeddingRpm = Number(process.env.EMBEDDING_RPM ?? '0');
+  const embeddingTpm = Number(process.env.EMBEDDING_TPM ?? '0');
 
   console.log('Starting Confluence vectorization job');
   console.log('--------------------------------------');
   console.log(`Max pages: ${maxPages}`);
   console.log(`Page limit per request: ${pageLimit}`);
-  console.log(`Chunk token range: ${chunkMinTokens}-${chunkMaxTokens}`);
+  console.log(`Chunk token range: ${chunkMinTokens}-${chunkMaxTokens} (overlap ${chunkOverlapTokens})`);
+  console.log(`Vector store: ${resolveVectorStoreBackend()}`);
+  console.log(`Mode: ${incremental ? 'incremental (CQL since high-water mark)' : 'full listing'}`);
+  console.log(`Deleted page pruning: ${pruneDeletedPages ? (pruneDryRun ? 'dry run' : 'enabled') : 'disabled'}`);
+  console.log(`PII scanning: ${piiScanMode}`);
+  console.log(`Checkpoint: ${checkpointEvery > 0 ? `every ${checkpointEvery} pages` : 'disabled'}${resume ? ' (resuming)' : ''}`);
+  console.log(`Embedding cache: ${EMBEDDING_CACHE_ENABLED ? 'enabled' : 'disabled'}`);
+  console.log(`Concurrency: ${concurrency} page${concurrency === 1 ? '' : 's'}`);
+  console.log(
+    `Embedding rate limit: ${embeddingRpm > 0 ? `${embeddingRpm} RPM` : 'unlimited RPM'}, ${
+      embeddingTpm > 0 ? `${embeddingTpm} TPM` : 'unlimited TPM'
+    }`
+  );
+
+  const spaceConfig = await loadSpaceConfigs();
+  if (spaceConfig) {
+    console.log(`Space config: ${spaceConfig.path}`);
+    console.log(`Spaces: ${spaceConfig.spaces.map((space) => space.key).join(', ')}`);
+  }
+
+  if (EMBEDDING_CACHE_ENABLED) {
+    (await getEmbeddingCache()).resetStats();
+  }
 
   const start = Date.now();
 
@@ -58,25 +108,99 @@ async function runVectorization() {
     pageLimit,
     chunkMinTokens,
     chunkMaxTokens,
+    chunkOverlapTokens,
+    spaces: spaceConfig?.spaces,
+    pruneDeletedPages,
+    pruneDryRun,
+    incremental,
+    piiScanMode,
+    resume,
+    checkpointEvery,
+    concurrency,
   });
 
   const duration = (Date.now() - start) / 1000;
 
   console.log('Vectorization completed successfully.');
   console.log(`Embedding model version: ${knowledgeBase.stats.embedVersion}`);
+  const active = await resolveActiveNamespace();
+  if (active.namespace === knowledgeBase.stats.namespace) {
+    console.log(`Namespace: ${knowledgeBase.stats.namespace} (active)`);
+  } else {
+    console.log(
+      `Namespace: ${knowledgeBase.stats.namespace} — queries still read ${active.namespace}. Validate and switch with: npm run namespaces -- promote`
+    );
+  }
   console.log(`Pages scanned: ${knowledgeBase.stats.totalPages}`);
   console.log(`Pages embedded: ${knowledgeBase.stats.embeddedPages}`);
   console.log(`Pages skipped: ${knowledgeBase.stats.skippedPages}`);
-  console.log(`Chunks upserted: ${knowledgeBase.stats.embeddedChunks}`);
+  console.log(`Pages ${pruneDryRun ? 'to delete (dry run)' : 'deleted'}: ${knowledgeBase.stats.deletedPages}`);
+  console.log(`Chunks embedded: ${knowledgeBase.stats.embeddedChunks}`);
+  console.log(`Chunks unchanged (embedding reused): ${knowledgeBase.stats.reusedChunks}`);
+  const { pii } = knowledgeBase.stats;
+  if (pii.mode !== 'off') {
+    const findings = Object.entries(pii.findings)
+      .map(([type, count]) => `${type} ${count}`)
+      .join(', ');
+    console.log(
+      `Chunks with PII: ${pii.flaggedChunks}/${pii.scannedChunks}${pii.mode === 'mask' ? ' (masked)' : ''}${
+        findings ? ` — ${findings}` : ''
+      }`
+    );
+  }
+  knowledgeBase.stats.spaces
+    .filter((space) => space.highWaterMark)
+    .forEach((space) => {
+      console.log(`High-water mark for ${space.spaceKey ?? '(all)'}: ${space.highWaterMark}`);
+    });
+  if (knowledgeBase.stats.spaces.length > 1) {
+    console.log('Per-space results:');
+    knowledgeBase.stats.spaces.forEach((space) => {
+      console.log(
+        `  • ${space.spaceKey ?? '(all)'}: scanned ${space.totalPages}, embedded ${space.embeddedPages}, skipped ${space.skippedPages}, excluded ${space.excludedPages}, deleted ${space.deletedPages}, chunks ${space.embeddedChunks} (+${space.reusedChunks} reused), PII chunks ${space.piiFlaggedChunks}`
+      );
+    });
+  }
+  const cacheStats = await getEmbeddingCacheStats();
+  if (cacheStats) {
+    const lookups = cacheStats.hits + cacheStats.misses;
+    const hitRate = lookups > 0 ? ((cacheStats.hits / lookups) * 100).toFixed(1) : '0.0';
+    console.log(
+      `Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses (${hitRate}% hit rate), ${
+        cacheStats.writes
+      } written, ${cacheStats.evictions} evicted, ${cacheStats.entries} entries (${(
+        cacheStats.bytes /
+        1024 /
+        1024
+      ).toFixed(1)} MB)`
+    );
+  }
+  const { embeddingUsage } = knowledgeBase.stats;
+  console.log(
+    `Embedding usage: ${embeddingUsage.tokens} tokens in ${embeddingUsage.requests} requests, cost ${formatCost(
+      embeddingUsage.cost,
+      embeddingUsage.currency
+    )}${embeddingUsage.unpricedModels ? ` (no price for ${embeddingUsage.unpricedModels.join(', ')})` : ''}`
+  );
+  const { throughput } = knowledgeBase.stats;
+  console.log(
+    `Throughput: ${throughput.pagesPerSecond.toFixed(2)} pages/s, ${throughput.chunksPerSecond.toFixed(
+      2
+    )} chunks/s (${throughput.pages} pages, ${throughput.chunks} chunks embedded at concurrency ${throughput.concurrency})`
+  );
   console.log(`Elapsed time: ${duration.toFixed(2)}s`);
   console.log('Metadata log written to logs/vectorize-last-run.json');
+  console.log(`Run history: ${path.relative(process.cwd(), knowledgeBase.runLogPath)} (compare runs with npm run vectorize:diff)`);
 }
 
 async function main() {
+  const resumeRequested = hasFlag('--resume') || process.env.VECTORIZE_RESUME === 'true';
+
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt += 1) {
     try {
       console.log(`Attempt ${attempt}/${MAX_RETRIES}`);
-      await runVectorization();
+      // Retries pick up from the checkpoint the failed attempt left behind.
+      await runVectorization(attempt > 1 || resumeRequested);
       console.log('Vectorization job finished ✅');
       process.exit(0);
     } catch (error) {
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
+  ProviderUnavailableError,
+  UnknownProviderError,
+  UsageLedger,
   chatCompletionStream,
   resolveProvider,
+  type RequestUsageSummary,
 } from '@/lib/providers/modelProvider';
 import { buildProviderMessages, tracePrompt } from '@/lib/prompts/unifiedPrompt';
 
@@ -29,6 +33,10 @@ interface PerformanceMetrics {
   startTime: number;
   messageCount: number;
   errorCount: number;
+  /** Token usage and cost, once the answer has finished streaming. */
+  usage?: RequestUsageSummary;
+  /** Set when the client stopped the answer or disconnected before it finished. */
+  stopped?: boolean;
 }
 
 interface VercelChatMessage {
@@ -67,6 +75,8 @@ const logPerformanceMetrics = (metrics: PerformanceMetrics, error?: Error) => {
     messageCount: metrics.messageCount,
     errorCount: metrics.errorCount,
     error: error?.message,
+    usage: metrics.usage,
+    stopped: metrics.stopped,
     timestamp: new Date().toISOString()
   }));
 };
@@ -157,10 +167,15 @@ export async function POST(req: NextRequest) {
 
     tracePrompt({ label: 'chat.prompt', requestId: metrics.requestId }, providerMessages);
 
-    const { stream, model } = await chatCompletionStream({
+    const usage = new UsageLedger();
+    const { stream, model, provider: answeredBy, attempts } = await chatCompletionStream({
       messages: providerMessages,
       temperature: 0.4,
       provider,
+      usage,
+      purpose: 'answer',
+      // Aborted when the client disconnects, which cancels the upstream completion too.
+      signal: req.signal,
     });
 
     // 创建标准SSE流式响应
@@ -177,13 +192,18 @@ export async function POST(req: NextRequest) {
                 requestId: metrics.requestId,
                 timestamp: new Date().toISOString(),
                 model,
-                provider,
+                provider: answeredBy,
+                requestedProvider: provider,
+                ...(attempts.length ? { failover: attempts } : {}),
               }),
               metrics.requestId
             )
           ));
 
           for await (const chunk of stream) {
+            if (req.signal.aborted) {
+              break;
+            }
             const token = chunk?.choices?.[0]?.delta?.content;
 
             if (typeof token !== 'string') {
@@ -200,15 +220,27 @@ export async function POST(req: NextRequest) {
             ));
           }
 
-          // 发送完成信号
+          // 发送完成信号，附带本次请求的token用量与费用
+          metrics.usage = usage.summarize();
+          if (req.signal.aborted) {
+            metrics.stopped = true;
+            logPerformanceMetrics(metrics);
+            return;
+          }
           controller.enqueue(encoder.encode(
-            buildSSEMessage(SSEEventType.DONE, '', `${metrics.requestId}-done`)
+            buildSSEMessage(SSEEventType.DONE, JSON.stringify({ usage: metrics.usage }), `${metrics.requestId}-done`)
           ));
           
-          controller.close();
           logPerformanceMetrics(metrics);
           
         } catch (error) {
+          metrics.usage = usage.summarize();
+          if (req.signal.aborted) {
+            // The client stopped the answer or went away; there is no one to send an error to.
+            metrics.stopped = true;
+            logPerformanceMetrics(metrics);
+            return;
+          }
           metrics.errorCount++;
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           
@@ -216,8 +248,13 @@ export async function POST(req: NextRequest) {
             buildSSEMessage(SSEEventType.ERROR, errorMessage, `${metrics.requestId}-error`)
           ));
           
-          controller.close();
           logPerformanceMetrics(metrics, error as Error);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed, or cancelled when the client went away.
+          }
         }
       },
     });
@@ -244,7 +281,7 @@ export async function POST(req: NextRequest) {
       error: error.message,
       requestId: metrics.requestId 
     }, { 
-      status: 500,
+      status: error instanceof UnknownProviderError ? 400 : error instanceof ProviderUnavailableError ? 503 : 500,
       headers: {
         'Access-Control-Allow-Origin': effectiveOrigin,
         Vary: 'Origin',
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getProviderRegistry, listProviderOptions } from '@/lib/providers/registry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const { defaultProvider } = getProviderRegistry();
+    return NextResponse.json({ providers: listProviderOptions(), defaultProvider });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to list providers.' },
+      { status: 500 }
+    );
+  }
+}
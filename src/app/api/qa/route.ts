@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import { QAEngine } from '@/lib/pipeline';
-import { getPineconeStore } from '@/lib/vectorstore';
-import { resolveProvider } from '@/lib/providers/modelProvider';
+import { getVectorStore, retrievalFilterSchema } from '@/lib/vectorstore';
+import { resolveProvider, type RequestUsageSummary } from '@/lib/providers/modelProvider';
 import type { ChatMessage } from '@/components/ChatWindow/types';
 
 export const runtime = 'nodejs';
@@ -25,6 +25,10 @@ interface PerformanceMetrics {
   startTime: number;
   messageCount: number;
   errorCount: number;
+  /** Token usage and cost, once the answer has finished streaming. */
+  usage?: RequestUsageSummary;
+  /** Set when the client stopped the answer or disconnected before it finished. */
+  stopped?: boolean;
 }
 
 const buildSSEMessage = (type: SSEEventType, data: string, id?: string): string => {
@@ -51,6 +55,8 @@ const logPerformanceMetrics = (metrics: PerformanceMetrics, error?: Error) => {
     messageCount: metrics.messageCount,
     errorCount: metrics.errorCount,
     error: error?.message,
+    usage: metrics.usage,
+    stopped: metrics.stopped,
     timestamp: new Date().toISOString(),
   }));
 };
@@ -69,6 +75,14 @@ export async function POST(req: NextRequest) {
     const messages: ChatMessage[] = body?.messages ?? [];
     const requestedProvider = typeof body?.provider === 'string' ? body.provider : undefined;
     const provider = resolveProvider(requestedProvider);
+    const parsedFilter = retrievalFilterSchema.optional().safeParse(body?.filter ?? undefined);
+
+    if (!parsedFilter.success) {
+      const issues = parsedFilter.error.issues
+        .map((issue) => `${issue.path.join('.') || 'filter'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid request: bad filter (${issues}).`);
+    }
 
     if (!messages.length || !messages[messages.length - 1]?.content?.trim()) {
       throw new Error('Invalid request: missing messages or content.');
@@ -77,13 +91,15 @@ export async function POST(req: NextRequest) {
     const latestMessage = messages[messages.length - 1];
     const chatHistory = formatChatHistory(messages.slice(0, -1));
 
-    const store = await getPineconeStore();
+    const store = await getVectorStore();
     const qa = new QAEngine(store, undefined, provider);
-    const { references, stream } = await qa.createStreamingCompletion(
+    const { references, stream, retrievalTrace, provider: answeredBy, model, attempts, usage } = await qa.createStreamingCompletion(
       latestMessage.content,
       chatHistory,
       provider,
-      { label: 'qa.prompt', requestId: metrics.requestId }
+      { label: 'qa.prompt', requestId: metrics.requestId },
+      parsedFilter.data,
+      req.signal
     );
 
     const readableStream = new ReadableStream<Uint8Array>({
@@ -95,11 +111,22 @@ export async function POST(req: NextRequest) {
         try {
           send(
             SSEEventType.METADATA,
-            JSON.stringify({ requestId: metrics.requestId, references, provider })
+            JSON.stringify({
+              requestId: metrics.requestId,
+              references,
+              provider: answeredBy,
+              model,
+              requestedProvider: provider,
+              ...(attempts.length ? { failover: attempts } : {}),
+              rewrittenQuery: retrievalTrace.rewrittenQuery,
+            })
           );
 
           let chunkIndex = 0;
           for await (const chunk of stream) {
+            if (req.signal.aborted) {
+              break;
+            }
             const token = chunk.choices?.[0]?.delta?.content ?? '';
             if (!token) {
               continue;
@@ -114,18 +141,35 @@ export async function POST(req: NextRequest) {
             chunkIndex += 1;
           }
 
-          send(SSEEventType.DONE, '', `${metrics.requestId}-done`);
-          controller.close();
+          metrics.usage = usage.summarize();
+          if (req.signal.aborted) {
+            metrics.stopped = true;
+            logPerformanceMetrics(metrics);
+            return;
+          }
+          send(SSEEventType.DONE, JSON.stringify({ usage: metrics.usage }), `${metrics.requestId}-done`);
           logPerformanceMetrics(metrics);
         } catch (error) {
+          metrics.usage = usage.summarize();
+          if (req.signal.aborted) {
+            // The client stopped the answer or went away; there is no one to send an error to.
+            metrics.stopped = true;
+            logPerformanceMetrics(metrics);
+            return;
+          }
           metrics.errorCount += 1;
           send(
             SSEEventType.ERROR,
             (error as Error).message ?? 'Unknown error',
             `${metrics.requestId}-error`
           );
-          controller.close();
           logPerformanceMetrics(metrics, error as Error);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed, or cancelled when the client went away.
+          }
         }
       },
     });
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { loadVectorCache } from '@/lib/pipeline/vectorCache';
+import { resolveActiveNamespace } from '@/lib/vectorstore/namespaces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface SpaceSummary {
+  key: string;
+  pageCount: number;
+}
+
+export async function GET() {
+  try {
+    const cache = await loadVectorCache((await resolveActiveNamespace()).namespace);
+    const counts = new Map<string, number>();
+
+    Object.values(cache.pages).forEach((entry) => {
+      if (entry.spaceKey) {
+        counts.set(entry.spaceKey, (counts.get(entry.spaceKey) ?? 0) + 1);
+      }
+    });
+
+    const spaces: SpaceSummary[] = [...counts.entries()]
+      .map(([key, pageCount]) => ({ key, pageCount }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    return NextResponse.json({ spaces });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to list spaces.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,12 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useMemo } from 'react';
 import { ChatWindow } from '@/components/ChatWindow';
-import { PROVIDER_OPTIONS, type ProviderName, normalizeProviderName } from '@/lib/providers/types';
-
-const DEFAULT_PROVIDER = normalizeProviderName(process.env.NEXT_PUBLIC_PROVIDER as ProviderName | undefined);
+import { useProviders } from '@/hooks';
 
 export default function Home() {
-  const [provider, setProvider] = useState<ProviderName>(DEFAULT_PROVIDER);
-  const requestMetadata = useMemo(() => ({ provider }), [provider]);
+  const { providers, provider, setProvider } = useProviders();
+  const requestMetadata = useMemo(() => (provider ? { provider } : {}), [provider]);
 
   const toolbarActions = (
     <div className="flex items-center space-x-2">
@@ -18,12 +16,13 @@ export default function Home() {
       <select
         id="chat-provider"
         value={provider}
-        onChange={(event) => setProvider(event.target.value as ProviderName)}
+        onChange={(event) => setProvider(event.target.value)}
+        disabled={providers.length === 0}
         className="rounded-md border border-border-subtle bg-bg-secondary px-2 py-1 text-sm text-text-primary focus:border-accent focus:outline-none"
       >
-        {PROVIDER_OPTIONS.map((option) => (
-          <option key={option} value={option}>
-            {option === 'openai' ? 'OpenAI' : 'Qwen (通义千问)'}
+        {providers.map((option) => (
+          <option key={option.name} value={option.name} title={option.chatModel}>
+            {option.displayName}
           </option>
         ))}
       </select>
@@ -1,11 +1,11 @@
 'use client';
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { ChatWindow } from '@/components/ChatWindow';
 import { MessageBubble } from '@/components/MessageBubble';
 import { QAReferenceList } from '@/components/QAReferenceList';
 import type { RenderMessageParams } from '@/components/ChatWindow/types';
-import { PROVIDER_OPTIONS, type ProviderName, normalizeProviderName } from '@/lib/providers/types';
+import { useProviders } from '@/hooks';
 
 const QA_EMPTY_STATE = {
   icon: '📚',
@@ -18,12 +18,42 @@ const QA_EMPTY_STATE = {
   ],
 };
 
+interface SpaceOption {
+  key: string;
+  pageCount: number;
+}
+
 export default function QAPage() {
-  const [provider, setProvider] = useState<ProviderName>(
-    normalizeProviderName(process.env.NEXT_PUBLIC_PROVIDER as ProviderName | undefined)
-  );
+  const { providers, provider, setProvider } = useProviders();
+  const [spaces, setSpaces] = useState<SpaceOption[]>([]);
+  const [spaceKey, setSpaceKey] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
 
-  const requestMetadata = useMemo(() => ({ provider }), [provider]);
+    fetch('/api/spaces')
+      .then((response) => (response.ok ? response.json() : { spaces: [] }))
+      .then((payload: { spaces?: SpaceOption[] }) => {
+        if (!cancelled) {
+          setSpaces(payload.spaces ?? []);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load Confluence spaces:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const requestMetadata = useMemo(
+    () => ({
+      ...(provider ? { provider } : {}),
+      ...(spaceKey ? { filter: { spaceKeys: [spaceKey] } } : {}),
+    }),
+    [provider, spaceKey]
+  );
 
   const renderMessage = useCallback(({ message, isStreaming, onFeedback }: RenderMessageParams) => {
     return (
@@ -42,18 +72,35 @@ export default function QAPage() {
 
   const toolbarActions = (
     <div className="flex items-center space-x-2">
+      <label htmlFor="qa-space" className="text-sm text-text-tertiary">
+        空间
+      </label>
+      <select
+        id="qa-space"
+        value={spaceKey}
+        onChange={(event) => setSpaceKey(event.target.value)}
+        className="rounded-md border border-border-subtle bg-bg-secondary px-2 py-1 text-sm text-text-primary focus:border-accent focus:outline-none"
+      >
+        <option value="">全部 All spaces</option>
+        {spaces.map((space) => (
+          <option key={space.key} value={space.key}>
+            {space.key} ({space.pageCount})
+          </option>
+        ))}
+      </select>
       <label htmlFor="qa-provider" className="text-sm text-text-tertiary">
         模型
       </label>
       <select
         id="qa-provider"
         value={provider}
-        onChange={(event) => setProvider(event.target.value as ProviderName)}
+        onChange={(event) => setProvider(event.target.value)}
+        disabled={providers.length === 0}
         className="rounded-md border border-border-subtle bg-bg-secondary px-2 py-1 text-sm text-text-primary focus:border-accent focus:outline-none"
       >
-        {PROVIDER_OPTIONS.map((option) => (
-          <option key={option} value={option}>
-            {option === 'openai' ? 'OpenAI' : 'Qwen (通义千问)'}
+        {providers.map((option) => (
+          <option key={option.name} value={option.name} title={option.chatModel}>
+            {option.displayName}
           </option>
         ))}
       </select>
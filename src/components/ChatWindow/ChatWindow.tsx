@@ -30,6 +30,7 @@ export function ChatWindow({
         input,
         setInput,
         sendMessage,
+        stop,
         isLoading,
         error,
         retry,
@@ -211,6 +212,7 @@ export function ChatWindow({
               <SendButton
                 isLoading={isLoading}
                 disabled={!input.trim()}
+                onStop={stop}
                 onClick={() => {
                   if (input.trim() && !isLoading) {
                     const messageToSend = input.trim();
@@ -66,6 +66,11 @@ export function MessageBubble({ message, className = '', onFeedback, isStreaming
                           {formatTime(message.timestamp)}
                         </span>
                       )}
+                      {message.metadata?.stopped === true && (
+                        <span className="text-xs text-text-tertiary">
+                          已停止生成
+                        </span>
+                      )}
                     </div>
 
                     <div className="flex items-center space-x-2">
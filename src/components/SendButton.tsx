@@ -6,17 +6,32 @@ interface SendButtonProps {
   isLoading: boolean;
   disabled: boolean;
   onClick: () => void;
+  /** When set, the button turns into a "Stop generating" control while loading. */
+  onStop?: () => void;
 }
 
-export function SendButton({ isLoading, disabled, onClick }: SendButtonProps) {
+export function SendButton({ isLoading, disabled, onClick, onStop }: SendButtonProps) {
+  const canStop = isLoading && Boolean(onStop);
+
   return (
     <button
-      type="submit"
-      disabled={disabled}
-      onClick={onClick}
+      type={canStop ? 'button' : 'submit'}
+      disabled={canStop ? false : disabled}
+      onClick={canStop ? onStop : onClick}
+      aria-label={canStop ? 'Stop generating' : 'Send message'}
+      title={canStop ? 'Stop generating' : undefined}
       className="flex items-center justify-center w-10 h-10 rounded-full bg-interactive-primary text-text-inverted hover:bg-interactive-primary-hover disabled:bg-bg-tertiary disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md disabled:shadow-none"
     >
-      {isLoading ? (
+      {canStop ? (
+        // 生成中且可停止 - 停止图标
+        <svg
+          className="w-4 h-4"
+          fill="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <rect x="5" y="5" width="14" height="14" rx="2"/>
+        </svg>
+      ) : isLoading ? (
         // 发送中状态 - 停止/暂停图标
         <svg 
           className="w-5 h-5" 
@@ -2,3 +2,4 @@ export { useChat } from './useChat';
 export { useAutoScroll } from './useAutoScroll';
 export { useDarkMode } from './useDarkMode';
 export { useTheme } from './useTheme';
+export { useProviders } from './useProviders';
@@ -46,6 +46,10 @@ interface StreamMetadata {
   [key: string]: unknown;
 }
 
+// fetch 与 reader.read() 在请求被中止时都会抛出 AbortError
+const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
 interface UseChatOptions {
   apiUrl: string;
   onError?: (error: Error) => void;
@@ -62,6 +66,8 @@ interface UseChatReturn {
   input: string;
   setInput: (input: string) => void;
   sendMessage: (content: string, payload?: Record<string, unknown>) => Promise<void>;
+  /** Aborts the in-flight request; the partial answer is kept and marked as stopped. */
+  stop: () => void;
   isLoading: boolean;
   error: string | null;
   connectionStatus: ConnectionStatus;
@@ -90,6 +96,7 @@ export function useChat(options: UseChatOptions): UseChatReturn {
   optionsRef.current = options;
   const streamingMessageRef = useRef<{ index: number; requestId: string } | null>(null);
   const lastPayloadRef = useRef<Record<string, unknown> | undefined>(undefined);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // 清除消息
   const clearMessages = useCallback(() => {
@@ -98,6 +105,11 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     setRetryCount(0);
   }, []);
 
+  // 停止生成：中止请求，服务端随之取消对模型的调用
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   // 更新连接状态
   const updateConnectionStatus = useCallback((status: ConnectionStatus) => {
     setConnectionStatus(status);
@@ -232,6 +244,32 @@ export function useChat(options: UseChatOptions): UseChatReturn {
           }
         }
       }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        throw error;
+      }
+
+      // 用户停止生成：保留已收到的部分回答，并标记为已停止
+      const context = streamingMessageRef.current;
+      if (context?.requestId === requestId) {
+        setMessages(prev => {
+          const target = prev[context.index];
+          if (!target) {
+            return prev;
+          }
+
+          const updatedMessages = [...prev];
+          updatedMessages[context.index] = {
+            ...target,
+            metadata: {
+              ...(target.metadata ?? {}),
+              stopped: true,
+            },
+          };
+          return updatedMessages;
+        });
+      }
+      optionsRef.current.onComplete?.();
     } finally {
       reader.releaseLock();
       streamingMessageRef.current = null;
@@ -273,6 +311,9 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     setMessages(newMessages);
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       // 2. 发送API请求
       const response = await fetch(optionsRef.current.apiUrl, {
@@ -283,7 +324,8 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         body: JSON.stringify({
           messages: newMessages,
           ...(payload ?? {}),
-        })
+        }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -351,6 +393,13 @@ export function useChat(options: UseChatOptions): UseChatReturn {
       }
       
     } catch (error) {
+      if (isAbortError(error)) {
+        // 在收到响应前就已停止，没有可保留的回答
+        updateConnectionStatus(ConnectionStatus.DISCONNECTED);
+        optionsRef.current.onComplete?.();
+        return;
+      }
+
       console.error('Chat Error:', error);
       const errorObj = error as Error;
       setError(errorObj.message);
@@ -367,6 +416,9 @@ export function useChat(options: UseChatOptions): UseChatReturn {
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   }, [isLoading, handleStreamingResponse, updateConnectionStatus]);
@@ -399,6 +451,7 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     input,
     setInput,
     sendMessage,
+    stop,
     isLoading,
     error,
     connectionStatus,
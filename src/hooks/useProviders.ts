@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ProviderOption } from '@/lib/providers/types';
+
+interface ProvidersResponse {
+  providers?: ProviderOption[];
+  defaultProvider?: string;
+}
+
+/**
+ * Loads the configured providers from /api/providers. The selection starts at
+ * NEXT_PUBLIC_PROVIDER when that provider is listed, otherwise at the server's default.
+ * An empty selection lets the server pick its default.
+ */
+export function useProviders() {
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [provider, setProvider] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/providers')
+      .then((response) => (response.ok ? response.json() : { providers: [] }))
+      .then((payload: ProvidersResponse) => {
+        if (cancelled) {
+          return;
+        }
+        const options = payload.providers ?? [];
+        const names = options.map((option) => option.name);
+        const preferred = [process.env.NEXT_PUBLIC_PROVIDER, payload.defaultProvider].find(
+          (name): name is string => Boolean(name && names.includes(name))
+        );
+        setProviders(options);
+        setProvider((current) => (current && names.includes(current) ? current : preferred ?? names[0] ?? ''));
+      })
+      .catch((error) => {
+        console.warn('Failed to load providers:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { providers, provider, setProvider };
+}
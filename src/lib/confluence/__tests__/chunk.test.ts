@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { chunkPage } from '../chunk';
+import type { CleanConfluencePage } from '../clean';
+
+const PARAGRAPHS = [
+  'The release pipeline builds a container image for every merge to the main branch and tags it with the commit hash.',
+  'Staging deploys run automatically; the smoke tests must pass before the build is promoted to production.',
+  'Production deploys need an approved change ticket and happen between ten and four on working days only.',
+  'Rollbacks redeploy the previous image tag and page the service owner so the failed release can be investigated.',
+  'Database migrations ship one release ahead of the code that depends on them, so either version can run against the schema.',
+  'Feature flags default to off in production and are switched on per tenant once the owning team signs off.',
+];
+
+const TABLE = [
+  '| Service | Owner | Runbook |',
+  '| --- | --- | --- |',
+  ...Array.from({ length: 12 }, (_, idx) => `| service-${idx} | team-${idx} | https://wiki.example.com/runbooks/service-${idx} |`),
+].join('\n');
+
+const CODE = [
+  '```bash',
+  ...Array.from({ length: 16 }, (_, idx) => `kubectl rollout restart deployment/service-${idx} --namespace production`),
+  '```',
+].join('\n');
+
+function page(markdown: string): CleanConfluencePage {
+  return { pageId: '42', title: 'Deployment runbook', markdown };
+}
+
+describe('chunkPage', () => {
+  const options = { minTokens: 20, maxTokens: 60, embedVersion: 'test' };
+
+  test('keeps chunks with an overlap prefix within maxTokens', () => {
+    const chunks = chunkPage(page(`## Releases\n\n${PARAGRAPHS.join('\n\n')}`), { ...options, overlapTokens: 25 });
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.slice(1).some((chunk) => chunk.overlapChars > 0));
+    chunks.forEach((chunk) => {
+      assert.ok(chunk.tokenEstimate <= options.maxTokens, `${chunk.id} has ${chunk.tokenEstimate} tokens`);
+    });
+  });
+
+  test('copies the overlap from the end of the previous chunk', () => {
+    const chunks = chunkPage(page(`## Releases\n\n${PARAGRAPHS.join('\n\n')}`), { ...options, overlapTokens: 25 });
+
+    chunks.slice(1).forEach((chunk, idx) => {
+      const overlap = chunk.content.slice(0, chunk.overlapChars).trim();
+      assert.ok(chunks[idx].content.endsWith(overlap), `${chunk.id} overlap is not the tail of ${chunks[idx].id}`);
+    });
+  });
+
+  test('leaves chunks without overlap unchanged', () => {
+    const chunks = chunkPage(page(`## Releases\n\n${PARAGRAPHS.join('\n\n')}`), options);
+
+    chunks.forEach((chunk) => {
+      assert.equal(chunk.overlapChars, 0);
+      assert.ok(chunk.tokenEstimate <= options.maxTokens, `${chunk.id} has ${chunk.tokenEstimate} tokens`);
+    });
+  });
+
+  test('repeats the header row in every table part', () => {
+    const chunks = chunkPage(page(`## Services\n\n${TABLE}`), options).filter((chunk) => chunk.partCount);
+
+    assert.ok(chunks.length > 1);
+    const rows: string[] = [];
+    chunks.forEach((chunk) => {
+      const lines = chunk.content.split('\n');
+      assert.match(lines[0], /^\| Service +\| Owner +\| Runbook +\|$/);
+      assert.match(lines[1], /^\| -+ \| -+ \| -+ \|$/);
+      rows.push(...lines.slice(2));
+    });
+    // Every row lands in exactly one part, in order.
+    assert.deepEqual(
+      rows.map((row) => row.match(/service-(\d+)/)?.[1]),
+      Array.from({ length: 12 }, (_, idx) => String(idx))
+    );
+  });
+
+  test('re-opens the code fence with its language in every part', () => {
+    const chunks = chunkPage(page(`## Restart\n\n${CODE}`), options).filter((chunk) => chunk.partCount);
+
+    assert.ok(chunks.length > 1);
+    const lines: string[] = [];
+    chunks.forEach((chunk) => {
+      assert.match(chunk.content, /^```bash\n[\s\S]*\n```$/);
+      lines.push(...chunk.content.split('\n').slice(1, -1));
+    });
+    assert.equal(lines.length, 16);
+  });
+
+  test('numbers the parts of a split table or code block', () => {
+    const chunks = chunkPage(page(`## Services\n\n${TABLE}\n\n## Restart\n\n${CODE}`), options);
+    const table = chunks.filter((chunk) => chunk.content.startsWith('| Service'));
+    const code = chunks.filter((chunk) => chunk.content.startsWith('```bash'));
+
+    [table, code].forEach((parts) => {
+      assert.deepEqual(
+        parts.map((chunk) => [chunk.partIndex, chunk.partCount]),
+        parts.map((_, idx) => [idx + 1, parts.length])
+      );
+    });
+    // The heading paragraph is its own section and is not numbered.
+    assert.equal(chunks.filter((chunk) => chunk.partIndex === undefined).length, chunks.length - table.length - code.length);
+  });
+
+  test('keeps every table and code part within maxTokens', () => {
+    const chunks = chunkPage(page(`## Services\n\n${TABLE}\n\n## Restart\n\n${CODE}`), options);
+
+    chunks.forEach((chunk) => {
+      assert.ok(chunk.tokenEstimate <= options.maxTokens, `${chunk.id} has ${chunk.tokenEstimate} tokens`);
+    });
+  });
+
+  test('leaves a table or code block that fits unnumbered', () => {
+    const [chunk] = chunkPage(page('```sh\nmake deploy\n```'), options);
+    assert.equal(chunk.partIndex, undefined);
+    assert.equal(chunk.partCount, undefined);
+  });
+});
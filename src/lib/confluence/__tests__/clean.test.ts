@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { htmlToCleanMarkdown } from '../clean';
+
+// Each <name>.storage.html fixture is Confluence storage format; <name>.md is the expected Markdown.
+const FIXTURE_DIR = path.join(__dirname, '..', '__fixtures__', 'macros');
+const STORAGE_SUFFIX = '.storage.html';
+
+function readFixture(name: string, suffix: string): string {
+  return readFileSync(path.join(FIXTURE_DIR, `${name}${suffix}`), 'utf8');
+}
+
+describe('htmlToCleanMarkdown macro translation', () => {
+  const fixtures = readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith(STORAGE_SUFFIX))
+    .map((file) => file.slice(0, -STORAGE_SUFFIX.length))
+    .sort();
+
+  test('finds the fixtures', () => {
+    assert.ok(fixtures.length > 0, `no ${STORAGE_SUFFIX} fixtures in ${FIXTURE_DIR}`);
+  });
+
+  fixtures.forEach((name) => {
+    test(name, () => {
+      const markdown = htmlToCleanMarkdown('', readFixture(name, STORAGE_SUFFIX));
+      assert.equal(markdown, readFixture(name, '.md').trimEnd());
+    });
+  });
+
+  test('prefixes the page title as a heading', () => {
+    const markdown = htmlToCleanMarkdown('Release notes', readFixture('status', STORAGE_SUFFIX));
+    assert.match(markdown, /^# Release notes\n\nRelease state: \\\[Done\\\] as of today\./);
+  });
+});
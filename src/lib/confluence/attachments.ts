@@ -0,0 +1,142 @@
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import * as XLSX from 'xlsx';
+import { htmlToCleanMarkdown, type CleanConfluencePage } from './clean';
+import type { ConfluenceAttachment } from './types';
+
+export type AttachmentKind = 'pdf' | 'docx' | 'spreadsheet';
+
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'spreadsheet',
+  xls: 'spreadsheet',
+  csv: 'spreadsheet',
+};
+
+const MEDIA_TYPE_KINDS: Record<string, AttachmentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'spreadsheet',
+  'application/vnd.ms-excel': 'spreadsheet',
+  'text/csv': 'spreadsheet',
+};
+
+export function getAttachmentMediaType(attachment: ConfluenceAttachment): string | undefined {
+  return attachment.extensions?.mediaType ?? attachment.metadata?.mediaType;
+}
+
+export function resolveAttachmentKind(attachment: ConfluenceAttachment): AttachmentKind | null {
+  const mediaType = getAttachmentMediaType(attachment)?.toLowerCase();
+  if (mediaType && MEDIA_TYPE_KINDS[mediaType]) {
+    return MEDIA_TYPE_KINDS[mediaType];
+  }
+
+  const extension = attachment.title.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_KINDS[extension] ?? null;
+}
+
+function escapeTableCell(value: unknown): string {
+  return String(value ?? '')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, ' ')
+    .trim();
+}
+
+function rowsToMarkdownTable(rows: unknown[][]): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  if (width === 0) {
+    return '';
+  }
+
+  const toLine = (row: unknown[]) =>
+    `| ${Array.from({ length: width }, (_, idx) => escapeTableCell(row[idx])).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [toLine(header), `| ${Array.from({ length: width }, () => '---').join(' | ')} |`, ...body.map(toLine)].join(
+    '\n'
+  );
+}
+
+async function extractPdf(filename: string, data: Buffer): Promise<string> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    const pages = result.pages
+      .map((page) => page.text.trim())
+      .filter(Boolean)
+      .join('\n\n');
+    return `# ${filename}\n\n${pages}`;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocx(filename: string, data: Buffer): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: data });
+  return htmlToCleanMarkdown(filename, html);
+}
+
+function extractSpreadsheet(filename: string, data: Buffer): string {
+  const workbook = XLSX.read(data, { type: 'buffer' });
+  const sheets = workbook.SheetNames.map((sheetName) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+      blankrows: false,
+      defval: '',
+    });
+    const table = rows.length ? rowsToMarkdownTable(rows) : '';
+    return table ? `## ${sheetName}\n\n${table}` : '';
+  }).filter(Boolean);
+
+  return [`# ${filename}`, ...sheets].join('\n\n');
+}
+
+/**
+ * Converts a downloaded attachment into markdown headed by its filename, so it can
+ * go through chunkPage like a regular page body. Spreadsheets become one table per sheet.
+ */
+export async function extractAttachmentMarkdown(
+  attachment: ConfluenceAttachment,
+  data: Buffer
+): Promise<string | null> {
+  const kind = resolveAttachmentKind(attachment);
+  if (!kind) {
+    return null;
+  }
+
+  switch (kind) {
+    case 'pdf':
+      return extractPdf(attachment.title, data);
+    case 'docx':
+      return extractDocx(attachment.title, data);
+    case 'spreadsheet':
+      return extractSpreadsheet(attachment.title, data);
+  }
+}
+
+export function buildAttachmentPage(
+  parent: CleanConfluencePage,
+  attachment: ConfluenceAttachment,
+  markdown: string,
+  downloadUrl?: string
+): CleanConfluencePage {
+  const versionNumber = typeof attachment.version?.number === 'number' ? attachment.version.number : undefined;
+
+  return {
+    pageId: parent.pageId,
+    title: parent.title,
+    url: parent.url,
+    markdown,
+    spaceKey: parent.spaceKey,
+    updatedAt: attachment.version?.when?.trim() || parent.updatedAt,
+    etag: versionNumber != null ? String(versionNumber) : parent.etag,
+    versionNumber,
+    attachment: {
+      id: attachment.id,
+      filename: attachment.title,
+      mediaType: getAttachmentMediaType(attachment),
+      downloadUrl,
+    },
+  };
+}
@@ -1,16 +1,23 @@
 import { unified } from 'unified';
 import remarkParse from 'remark-parse';
 import remarkStringify from 'remark-stringify';
-import type { Root, Content, Heading } from 'mdast';
+import remarkGfm from 'remark-gfm';
+import type { Root, Content, Heading, Table, Code } from 'mdast';
 import type { CleanConfluencePage } from './clean';
+import { countTokens, takeLastTokens } from '../providers/tokenizer';
 
 const DEFAULT_MIN_TOKENS = 300;
 const DEFAULT_MAX_TOKENS = 800;
+const OVERLAP_SEPARATOR = '\n\n';
 
 export interface ChunkOptions {
   minTokens?: number;
   maxTokens?: number;
   embedVersion: string;
+  /** Model whose BPE tokenizer sizes the chunks, normally the embedding model. */
+  tokenizerModel?: string;
+  /** Tokens repeated from the end of the previous chunk of the same section. Defaults to 0. */
+  overlapTokens?: number;
 }
 
 export interface PageChunk {
@@ -30,6 +37,17 @@ export interface PageChunk {
   etag?: string;
   embedVersion: string;
   piiFlag: boolean;
+  attachmentId?: string;
+  attachmentFilename?: string;
+  attachmentUrl?: string;
+  /** Length of the leading text copied from the previous chunk, so merged neighbours can drop it. */
+  overlapChars: number;
+  /** First and last chunkIndex of the heading section this chunk belongs to. */
+  sectionStart: number;
+  sectionEnd: number;
+  /** 1-based position when an oversized table or code block was split into several chunks. */
+  partIndex?: number;
+  partCount?: number;
 }
 
 type SectionType = 'content' | 'code' | 'table';
@@ -42,17 +60,14 @@ type Section = {
   type: SectionType;
 };
 
-const parser = unified().use(remarkParse);
-const stringifier = unified().use(remarkStringify, {
+// GFM is needed for tables to parse as table nodes rather than plain paragraphs.
+const parser = unified().use(remarkParse).use(remarkGfm);
+const stringifier = unified().use(remarkGfm).use(remarkStringify, {
   fences: true,
   bullet: '-',
   listItemIndent: 'one',
 });
 
-function estimateTokens(text: string): number {
-  return text.split(/\s+/g).filter(Boolean).length;
-}
-
 function nodesToMarkdown(nodes: Content[]): string {
   const tree: Root = {
     type: 'root',
@@ -141,9 +156,91 @@ function buildSections(page: CleanConfluencePage, tree: Root): Section[] {
   return sections.filter((section) => section.nodes.length > 0);
 }
 
-function splitSectionNodes(section: Section, minTokens: number, maxTokens: number): Content[][] {
+/** Splits rows into groups that fit maxTokens, repeating the header row in every part. */
+function splitTable(table: Table, maxTokens: number, tokenizerModel?: string): Table[] {
+  const [header, ...rows] = table.children;
+  if (!header || rows.length <= 1) {
+    return [table];
+  }
+
+  const withRows = (rowGroup: Table['children']): Table => ({ ...table, children: [header, ...rowGroup] });
+  const headerTokens = countTokens(nodesToMarkdown([withRows([])]), tokenizerModel);
+  const parts: Table[] = [];
+  let buffer: Table['children'] = [];
+  let bufferTokens = headerTokens;
+
+  for (const row of rows) {
+    const rowTokens = countTokens(nodesToMarkdown([withRows([row])]), tokenizerModel) - headerTokens;
+    if (buffer.length > 0 && bufferTokens + rowTokens > maxTokens) {
+      parts.push(withRows(buffer));
+      buffer = [];
+      bufferTokens = headerTokens;
+    }
+    buffer.push(row);
+    bufferTokens += rowTokens;
+  }
+
+  if (buffer.length > 0) {
+    parts.push(withRows(buffer));
+  }
+
+  return parts;
+}
+
+/** Splits on line boundaries; every part keeps the original fence language. */
+function splitCode(code: Code, maxTokens: number, tokenizerModel?: string): Code[] {
+  const lines = code.value.split('\n');
+  if (lines.length <= 1) {
+    return [code];
+  }
+
+  const fenceTokens = countTokens(nodesToMarkdown([{ ...code, value: '' }]), tokenizerModel);
+  const parts: Code[] = [];
+  let buffer: string[] = [];
+  let bufferTokens = fenceTokens;
+
+  for (const line of lines) {
+    const lineTokens = countTokens(`${line}\n`, tokenizerModel);
+    if (buffer.length > 0 && bufferTokens + lineTokens > maxTokens) {
+      parts.push({ ...code, value: buffer.join('\n') });
+      buffer = [];
+      bufferTokens = fenceTokens;
+    }
+    buffer.push(line);
+    bufferTokens += lineTokens;
+  }
+
+  if (buffer.length > 0) {
+    parts.push({ ...code, value: buffer.join('\n') });
+  }
+
+  return parts;
+}
+
+function splitOversizedNode(node: Content, maxTokens: number, tokenizerModel?: string): Content[] {
+  if (countTokens(nodesToMarkdown([node]), tokenizerModel) <= maxTokens) {
+    return [node];
+  }
+
+  if (node.type === 'table') {
+    return splitTable(node, maxTokens, tokenizerModel);
+  }
+
+  if (node.type === 'code') {
+    return splitCode(node, maxTokens, tokenizerModel);
+  }
+
+  return [node];
+}
+
+function splitSectionNodes(
+  section: Section,
+  minTokens: number,
+  maxTokens: number,
+  tokenizerModel?: string
+): Content[][] {
   if (section.type !== 'content') {
-    return [section.nodes];
+    return section.nodes.flatMap((node) => splitOversizedNode(node, maxTokens, tokenizerModel)).map((node) => [node]);
   }
 
   const result: Content[][] = [];
@@ -161,7 +258,7 @@ function splitSectionNodes(section: Section, minTokens: number, maxTokens: numbe
 
   for (const node of section.nodes) {
     const nodeMarkdown = nodesToMarkdown([node]);
-    const nodeTokens = estimateTokens(nodeMarkdown);
+    const nodeTokens = countTokens(nodeMarkdown, tokenizerModel);
     const wouldExceed = bufferTokens + nodeTokens > maxTokens;
 
     if (wouldExceed && bufferTokens >= minTokens) {
@@ -186,9 +283,39 @@ function splitSectionNodes(section: Section, minTokens: number, maxTokens: numbe
   return result;
 }
 
+/**
+ * Builds the overlap prefix from whole trailing nodes of the previous group; when
+ * even the last node is larger than the overlap, its trailing tokens are used.
+ */
+function buildOverlapPrefix(previous: Content[], overlapTokens: number, tokenizerModel?: string): string {
+  const kept: Content[] = [];
+  let tokens = 0;
+
+  for (let idx = previous.length - 1; idx >= 0; idx -= 1) {
+    const nodeTokens = countTokens(nodesToMarkdown([previous[idx]]), tokenizerModel);
+    if (tokens + nodeTokens > overlapTokens) {
+      break;
+    }
+    kept.unshift(previous[idx]);
+    tokens += nodeTokens;
+  }
+
+  if (kept.length > 0) {
+    return nodesToMarkdown(kept);
+  }
+
+  const lastNode = previous[previous.length - 1];
+  return lastNode ? takeLastTokens(nodesToMarkdown([lastNode]), overlapTokens, tokenizerModel).trim() : '';
+}
+
 export function chunkPage(page: CleanConfluencePage, options: ChunkOptions): PageChunk[] {
   const minTokens = options.minTokens ?? DEFAULT_MIN_TOKENS;
   const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  // The overlap prefix counts toward maxTokens, so it is capped at half the budget and
+  // content sections are grouped small enough to leave room for it.
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? 0), Math.floor(maxTokens / 2));
+  const separatorTokens = countTokens(OVERLAP_SEPARATOR, options.tokenizerModel);
+  const contentMaxTokens = overlapTokens > 0 ? maxTokens - overlapTokens - separatorTokens : maxTokens;
   const tree = parser.parse(page.markdown) as Root;
   const sections = buildSections(page, tree);
 
@@ -196,20 +323,45 @@ export function chunkPage(page: CleanConfluencePage, options: ChunkOptions): Pag
   let chunkIndex = 0;
 
   for (const section of sections) {
-    const nodeGroups = splitSectionNodes(section, minTokens, maxTokens);
-    for (const nodes of nodeGroups) {
-      const content = nodesToMarkdown(nodes);
-      if (!content) {
-        continue;
+    const nodeGroups = splitSectionNodes(
+      section,
+      minTokens,
+      section.type === 'content' ? contentMaxTokens : maxTokens,
+      options.tokenizerModel
+    );
+    const sectionStart = chunkIndex;
+    const sectionChunks: PageChunk[] = [];
+    // Content sections are split by paragraphs; a table or code section only yields
+    // several groups when it was split into parts.
+    const partCount = section.type !== 'content' && nodeGroups.length > 1 ? nodeGroups.length : undefined;
+
+    nodeGroups.forEach((nodes, groupIndex) => {
+      const body = nodesToMarkdown(nodes);
+      if (!body) {
+        return;
       }
 
-      const headingPath = section.headingPath.length ? section.headingPath : (page.title ? [page.title] : []);
+      // A group kept above contentMaxTokens to reach minTokens gets a shorter prefix.
+      const overlapBudget =
+        section.type === 'content' && overlapTokens > 0 && groupIndex > 0
+          ? Math.min(overlapTokens, maxTokens - countTokens(body, options.tokenizerModel) - separatorTokens)
+          : 0;
+      const overlap =
+        overlapBudget > 0 ? buildOverlapPrefix(nodeGroups[groupIndex - 1], overlapBudget, options.tokenizerModel) : '';
+      const content = overlap ? `${overlap}${OVERLAP_SEPARATOR}${body}` : body;
+
+      const sectionPath = section.headingPath.length ? section.headingPath : (page.title ? [page.title] : []);
+      // Attachment sections are nested under the parent page so the page stays in context.
+      const headingPath =
+        page.attachment && page.title && sectionPath[0] !== page.title ? [page.title, ...sectionPath] : sectionPath;
       const headingPathString = headingPath.join(' > ');
       const heading = section.heading ?? headingPath[headingPath.length - 1];
-      const nodeId = `${page.pageId}-${chunkIndex}`;
-      const tokenEstimate = estimateTokens(content);
+      const nodeId = page.attachment
+        ? `${page.pageId}-att-${page.attachment.id}-${chunkIndex}`
+        : `${page.pageId}-${chunkIndex}`;
+      const tokenEstimate = countTokens(content, options.tokenizerModel);
 
-      chunks.push({
+      sectionChunks.push({
         id: nodeId,
         nodeId,
         pageId: page.pageId,
@@ -226,10 +378,23 @@ export function chunkPage(page: CleanConfluencePage, options: ChunkOptions): Pag
         etag: page.etag,
         embedVersion: options.embedVersion,
         piiFlag: false,
+        attachmentId: page.attachment?.id,
+        attachmentFilename: page.attachment?.filename,
+        attachmentUrl: page.attachment?.downloadUrl,
+        overlapChars: overlap ? overlap.length + OVERLAP_SEPARATOR.length : 0,
+        sectionStart,
+        sectionEnd: sectionStart,
+        partIndex: partCount ? groupIndex + 1 : undefined,
+        partCount,
       });
 
       chunkIndex += 1;
-    }
+    });
+
+    sectionChunks.forEach((chunk) => {
+      chunk.sectionEnd = chunkIndex - 1;
+    });
+    chunks.push(...sectionChunks);
   }
 
   return chunks;
@@ -1,4 +1,4 @@
-import { load } from 'cheerio';
+import { load, type CheerioAPI } from 'cheerio';
 import TurndownService from 'turndown';
 import { gfm } from 'turndown-plugin-gfm';
 import type { ConfluencePage } from './types';
@@ -15,7 +15,6 @@ const REMOVABLE_SELECTORS = [
   '.children-navigation',
   '.aui-message',
   '.footer-comment',
-  '.confluence-information-macro',
   '.label-list',
   '.page-metadata-override',
 ];
@@ -51,6 +50,114 @@ turndown.addRule('preserveCodeLanguage', {
   },
 });
 
+const CALLOUT_LABELS: Record<string, string> = {
+  info: 'Info',
+  information: 'Info',
+  note: 'Note',
+  warning: 'Warning',
+  tip: 'Tip',
+  panel: 'Panel',
+};
+
+const CODE_MACROS = new Set(['code', 'noformat']);
+const DROPPED_MACROS = new Set(['toc', 'children', 'pagetree', 'recently-updated', 'contentbylabel', 'attachments']);
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// The HTML parser treats CDATA as a comment, which would drop code macro bodies, and
+// ignores the self-closing slash on unknown tags, so <ac:structured-macro ... /> would
+// swallow every following sibling.
+function prepareStorageFormat(html: string): string {
+  return html
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, content: string) => escapeHtml(content))
+    .replace(/<((?:ac|ri):[\w-]+)([^<>]*?)\s*\/>/g, '<$1$2></$1>');
+}
+
+function buildCallout(label: string, title: string | undefined, bodyHtml: string): string {
+  const heading = title ? `${label}: ${escapeHtml(title)}` : label;
+  return `<blockquote><p><strong>${heading}</strong></p>${bodyHtml}</blockquote>`;
+}
+
+/**
+ * Rewrites Confluence storage-format macros (ac:structured-macro) and rendered
+ * information panels into plain HTML that turndown understands: panels become
+ * labelled blockquote callouts, code macros become fenced blocks, expand macros
+ * are unwrapped, and status/Jira macros become inline text.
+ */
+function translateMacros($: CheerioAPI) {
+  // Innermost macros first so panels nested in expand macros are translated before unwrapping.
+  $('ac\\:structured-macro')
+    .toArray()
+    .reverse()
+    .forEach((element) => {
+      const $macro = $(element);
+      const name = ($macro.attr('ac:name') ?? '').toLowerCase();
+      const parameter = (key: string) =>
+        $macro
+          .children('ac\\:parameter')
+          .filter((_, param) => $(param).attr('ac:name') === key)
+          .first()
+          .text()
+          .trim() || undefined;
+      const richBody = $macro.children('ac\\:rich-text-body').html() ?? '';
+
+      if (CALLOUT_LABELS[name]) {
+        $macro.replaceWith(buildCallout(CALLOUT_LABELS[name], parameter('title'), richBody));
+        return;
+      }
+
+      if (CODE_MACROS.has(name)) {
+        const code = $macro.children('ac\\:plain-text-body').text();
+        const language = name === 'code' ? parameter('language') : undefined;
+        const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+        $macro.replaceWith(`<pre><code${languageClass}>${escapeHtml(code)}</code></pre>`);
+        return;
+      }
+
+      if (name === 'expand') {
+        const title = parameter('title');
+        $macro.replaceWith(`${title ? `<p><strong>${escapeHtml(title)}</strong></p>` : ''}${richBody}`);
+        return;
+      }
+
+      if (name === 'status') {
+        const title = parameter('title') ?? parameter('colour') ?? 'Status';
+        $macro.replaceWith(`<span>[${escapeHtml(title)}]</span>`);
+        return;
+      }
+
+      if (name === 'jira') {
+        const key = parameter('key');
+        const query = parameter('jqlQuery');
+        const text = key ? `Jira ${key}` : query ? `Jira query: ${query}` : 'Jira issues';
+        $macro.replaceWith(`<span>${escapeHtml(text)}</span>`);
+        return;
+      }
+
+      if (DROPPED_MACROS.has(name) || !richBody) {
+        $macro.remove();
+        return;
+      }
+
+      $macro.replaceWith(richBody);
+    });
+
+  // Rendered (view format) panels use CSS classes instead of ac: elements.
+  $('.confluence-information-macro').each((_, element) => {
+    const $panel = $(element);
+    const panelType = ($panel.attr('class') ?? '')
+      .split(/\s+/)
+      .map((cls) => cls.replace(/^confluence-information-macro-/, ''))
+      .find((suffix) => CALLOUT_LABELS[suffix]);
+    const label = panelType ? CALLOUT_LABELS[panelType] : 'Note';
+    const title = $panel.children('.title').text().trim() || undefined;
+    const $body = $panel.find('.confluence-information-macro-body').first();
+    $panel.replaceWith(buildCallout(label, title, ($body.length ? $body.html() : $panel.html()) ?? ''));
+  });
+}
+
 function normaliseWhitespace(markdown: string): string {
   return markdown
     .split('\n')
@@ -69,10 +176,21 @@ export interface CleanConfluencePage {
   updatedAt?: string;
   etag?: string;
   versionNumber?: number;
+  /** Set when the markdown was extracted from a file attached to the page. */
+  attachment?: CleanAttachmentSource;
+}
+
+export interface CleanAttachmentSource {
+  id: string;
+  filename: string;
+  mediaType?: string;
+  downloadUrl?: string;
 }
 
 export function htmlToCleanMarkdown(title: string, html: string): string {
-  const $ = load(html);
+  const $ = load(prepareStorageFormat(html));
+
+  translateMacros($);
 
   REMOVABLE_SELECTORS.forEach((selector) => {
     $(selector).remove();
@@ -1,8 +1,14 @@
 import { Buffer } from 'node:buffer';
-import type { ConfluencePage, ConfluenceSearchResponse } from './types';
+import type {
+  ConfluenceAttachment,
+  ConfluenceAttachmentResponse,
+  ConfluencePage,
+  ConfluenceSearchResponse,
+} from './types';
 
 const DEFAULT_BASE_URL = 'https://cwiki.apache.org/confluence';
 const DEFAULT_PAGE_LIMIT = 25;
+const ATTACHMENT_PAGE_LIMIT = 50;
 const DEFAULT_MAX_RETRIES = Number(process.env.CONFLUENCE_REQUEST_RETRIES ?? '3');
 const DEFAULT_RETRY_BASE_DELAY_MS = Number(process.env.CONFLUENCE_RETRY_BASE_DELAY_MS ?? '2000');
 
@@ -106,23 +112,54 @@ export interface FetchPagesResult {
   raw: ConfluenceSearchResponse;
   hasMore: boolean;
   nextStart?: number;
+  /** Opaque cursor from the next link; Confluence Cloud search paginates with it instead of start. */
+  nextCursor?: string;
 }
 
-function parseNextStart(raw: ConfluenceSearchResponse, baseUrl: string): number | undefined {
+export interface SearchByCqlOptions {
+  start?: number;
+  cursor?: string;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+type PaginatedResponse = Pick<ConfluenceSearchResponse, '_links'>;
+
+function parseNextLink(raw: PaginatedResponse, baseUrl: string): URL | undefined {
   const nextLink = raw._links?.next;
   if (!nextLink) {
     return undefined;
   }
 
   try {
-    const url = new URL(nextLink, raw._links?.base ?? `${baseUrl}/`);
-    const startParam = url.searchParams.get('start');
-    return startParam ? Number(startParam) : undefined;
+    return new URL(nextLink, raw._links?.base ?? `${baseUrl}/`);
   } catch {
     return undefined;
   }
 }
 
+function parseNextStart(raw: PaginatedResponse, baseUrl: string): number | undefined {
+  const startParam = parseNextLink(raw, baseUrl)?.searchParams.get('start');
+  return startParam ? Number(startParam) : undefined;
+}
+
+function parseNextCursor(raw: PaginatedResponse, baseUrl: string): string | undefined {
+  return parseNextLink(raw, baseUrl)?.searchParams.get('cursor') ?? undefined;
+}
+
+function toFetchPagesResult(raw: ConfluenceSearchResponse, baseUrl: string): FetchPagesResult {
+  const pages = Array.isArray(raw.results) ? raw.results : [];
+  const hasMore = Boolean(raw._links?.next) && pages.length > 0;
+
+  return {
+    pages,
+    raw,
+    hasMore,
+    nextStart: parseNextStart(raw, baseUrl),
+    nextCursor: parseNextCursor(raw, baseUrl),
+  };
+}
+
 export class ConfluenceClient {
   private readonly baseUrl: string;
   private readonly defaultSpaceKey?: string;
@@ -160,7 +197,9 @@ export class ConfluenceClient {
 
   private buildHeaders(headers?: HeadersInit) {
     const result = new Headers(headers ?? {});
-    result.set('Accept', 'application/json');
+    if (!result.has('Accept')) {
+      result.set('Accept', 'application/json');
+    }
     if (this.authHeader) {
       result.set('Authorization', this.authHeader);
     }
@@ -208,15 +247,33 @@ export class ConfluenceClient {
     );
 
     const raw = (await response.json()) as ConfluenceSearchResponse;
-    const pages = Array.isArray(raw.results) ? raw.results : [];
-    const hasMore = Boolean(raw._links?.next) && pages.length > 0;
+    return toFetchPagesResult(raw, this.baseUrl);
+  }
+
+  async searchByCql(cql: string, options: SearchByCqlOptions = {}): Promise<FetchPagesResult> {
+    const params = new URLSearchParams({
+      cql,
+      limit: String(options.limit ?? DEFAULT_PAGE_LIMIT),
+    });
+    params.set('expand', 'body.storage,version,space');
+
+    if (options.cursor) {
+      params.set('cursor', options.cursor);
+    } else {
+      params.set('start', String(options.start ?? 0));
+    }
+
+    const response = await this.request(
+      `rest/api/content/search?${params.toString()}`,
+      {
+        method: 'GET',
+        signal: options.signal,
+      },
+      'GET /rest/api/content/search'
+    );
 
-    return {
-      pages,
-      raw,
-      hasMore,
-      nextStart: parseNextStart(raw, this.baseUrl),
-    };
+    const raw = (await response.json()) as ConfluenceSearchResponse;
+    return toFetchPagesResult(raw, this.baseUrl);
   }
 
   async fetchPageContent(pageId: string, signal?: AbortSignal): Promise<ConfluencePage> {
@@ -231,6 +288,61 @@ export class ConfluenceClient {
 
     return (await response.json()) as ConfluencePage;
   }
+
+  async fetchAttachments(pageId: string, signal?: AbortSignal): Promise<ConfluenceAttachment[]> {
+    const attachments: ConfluenceAttachment[] = [];
+    let start: number | undefined = 0;
+
+    while (start !== undefined) {
+      const params = new URLSearchParams({
+        start: String(start),
+        limit: String(ATTACHMENT_PAGE_LIMIT),
+        expand: 'version',
+      });
+
+      const response = await this.request(
+        `rest/api/content/${pageId}/child/attachment?${params.toString()}`,
+        {
+          method: 'GET',
+          signal,
+        },
+        `GET /rest/api/content/${pageId}/child/attachment`
+      );
+
+      const raw = (await response.json()) as ConfluenceAttachmentResponse;
+      const results = Array.isArray(raw.results) ? raw.results : [];
+      attachments.push(...results);
+
+      const nextStart = results.length > 0 ? parseNextStart(raw, this.baseUrl) : undefined;
+      start = nextStart !== undefined && nextStart > start ? nextStart : undefined;
+    }
+
+    return attachments;
+  }
+
+  getAttachmentDownloadUrl(attachment: ConfluenceAttachment): string | undefined {
+    const downloadPath = attachment._links?.download;
+    return downloadPath ? this.buildUrl(downloadPath) : undefined;
+  }
+
+  async downloadAttachment(attachment: ConfluenceAttachment, signal?: AbortSignal): Promise<Buffer> {
+    const downloadPath = attachment._links?.download;
+    if (!downloadPath) {
+      throw new Error(`Attachment ${attachment.id} (${attachment.title}) has no download link.`);
+    }
+
+    const response = await this.request(
+      downloadPath,
+      {
+        method: 'GET',
+        headers: { Accept: '*/*' },
+        signal,
+      },
+      `GET attachment ${attachment.id}`
+    );
+
+    return Buffer.from(await response.arrayBuffer());
+  }
 }
 
 export default ConfluenceClient;
@@ -0,0 +1,32 @@
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+export function escapeCqlString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Formats a date the way CQL date comparisons expect ("yyyy/MM/dd HH:mm").
+ * CQL has minute precision and evaluates dates in the querying user's time zone,
+ * so callers should compare with >= against a mark that includes some lookback.
+ */
+export function formatCqlDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ${pad(
+    date.getUTCHours()
+  )}:${pad(date.getUTCMinutes())}`;
+}
+
+export function buildModifiedPagesCql(spaceKey: string | undefined, modifiedSince?: Date): string {
+  const clauses = ['type = page'];
+
+  if (spaceKey) {
+    clauses.push(`space = "${escapeCqlString(spaceKey)}"`);
+  }
+
+  if (modifiedSince) {
+    clauses.push(`lastmodified >= "${formatCqlDateTime(modifiedSince)}"`);
+  }
+
+  return `${clauses.join(' AND ')} ORDER BY lastmodified ASC`;
+}
@@ -2,3 +2,5 @@ export * from './client';
 export * from './types';
 export * from './clean';
 export * from './chunk';
+export * from './cql';
+export * from './attachments';
@@ -44,3 +44,35 @@ export interface ConfluenceSearchResponse {
     base?: string;
   };
 }
+
+export interface ConfluenceAttachment {
+  id: string;
+  title: string;
+  type: string;
+  status?: string;
+  version?: ConfluenceVersionInfo;
+  metadata?: {
+    mediaType?: string;
+    comment?: string;
+  };
+  extensions?: {
+    mediaType?: string;
+    fileSize?: number;
+  };
+  _links?: {
+    download?: string;
+    webui?: string;
+    self?: string;
+  };
+}
+
+export interface ConfluenceAttachmentResponse {
+  results: ConfluenceAttachment[];
+  start: number;
+  limit: number;
+  size: number;
+  _links?: {
+    next?: string;
+    base?: string;
+  };
+}
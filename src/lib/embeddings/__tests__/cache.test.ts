@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { EmbeddingCache } from '../cache';
+
+const MODEL_VERSION = 'test:embedding';
+
+function vectorFor(text: string): number[] {
+  return [text.length, text.charCodeAt(0), 0.5];
+}
+
+describe('EmbeddingCache', () => {
+  const workDir = mkdtempSync(path.join(tmpdir(), 'embedding-cache-'));
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('keeps an entry appended while a compaction rewrites the file', async () => {
+    const large = { text: 'large', vector: Array.from({ length: 256 }, (_, idx) => idx) };
+    const small = ['s1', 's2', 's3', 's4'].map((text) => ({ text, vector: vectorFor(text) }));
+
+    const probe = new EmbeddingCache(path.join(workDir, 'probe.jsonl'));
+    await probe.setMany([large], MODEL_VERSION);
+    const largeBytes = probe.getStats().bytes;
+    await probe.setMany([small[0]], MODEL_VERSION);
+    const smallBytes = probe.getStats().bytes - largeBytes;
+
+    // s3 pushes the cache over the limit and evicts the large entry; s4 then fits and is appended.
+    const filePath = path.join(workDir, 'compaction.jsonl');
+    const cache = new EmbeddingCache(filePath, 100, largeBytes + 2 * smallBytes + Math.floor(smallBytes / 2));
+    await cache.load();
+    await cache.setMany([large, small[0], small[1]], MODEL_VERSION);
+    await Promise.all([cache.setMany([small[2]], MODEL_VERSION), cache.setMany([small[3]], MODEL_VERSION)]);
+
+    const reloaded = new EmbeddingCache(filePath);
+    await reloaded.load();
+    assert.equal(reloaded.getStats().entries, 4);
+    small.forEach(({ text, vector }) => {
+      assert.deepEqual(reloaded.get(text, MODEL_VERSION), vector);
+    });
+  });
+
+  test('writes each entry to the file once', async () => {
+    const filePath = path.join(workDir, 'unique.jsonl');
+    const cache = new EmbeddingCache(filePath, 5, Number.MAX_SAFE_INTEGER);
+    await cache.load();
+
+    await Promise.all(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map((text) => cache.setMany([{ text, vector: vectorFor(text) }], MODEL_VERSION))
+    );
+
+    const keys = readFileSync(filePath, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => (JSON.parse(line) as { k: string }).k);
+    assert.equal(new Set(keys).size, keys.length);
+    assert.equal(keys.length, cache.getStats().entries);
+  });
+});
@@ -0,0 +1,282 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+
+const DEFAULT_CACHE_PATH = path.join(process.cwd(), 'data', 'embedding-cache.jsonl');
+const CACHE_PATH = process.env.EMBEDDING_CACHE_PATH ? path.resolve(process.env.EMBEDDING_CACHE_PATH) : DEFAULT_CACHE_PATH;
+const MAX_ENTRIES = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES ?? '100000');
+const MAX_BYTES = Number(process.env.EMBEDDING_CACHE_MAX_MB ?? '256') * 1024 * 1024;
+
+export const EMBEDDING_CACHE_ENABLED = !/^(0|false|no|off)$/i.test(process.env.EMBEDDING_CACHE ?? '');
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+interface CacheLine {
+  /** `${modelVersion}:${sha256(text)}` */
+  k: string;
+  /** Float32 vector, base64-encoded. */
+  v: string;
+}
+
+export function buildEmbeddingCacheKey(text: string, modelVersion: string): string {
+  return `${modelVersion}:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+function lineBytes(line: string): number {
+  return Buffer.byteLength(line) + 1;
+}
+
+/** Map-backed least-recently-used cache; reads refresh an entry's position. */
+export class LruCache<V> {
+  private readonly entries = new Map<string, V>();
+
+  constructor(private readonly maxSize: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V) {
+    if (this.maxSize <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Persistent embedding cache stored as an append-only JSONL file under data/. New
+ * vectors are appended as they are embedded; once the file passes its entry or size
+ * limit it is rewritten without the least recently used entries. The whole file is
+ * held in memory, so keep EMBEDDING_CACHE_MAX_MB well below the available heap.
+ */
+export class EmbeddingCache {
+  private readonly entries = new Map<string, string>();
+  private bytes = 0;
+  private readonly stats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+  /** Lines remembered in memory but not yet appended to the file. */
+  private pendingLines: string[] = [];
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string = CACHE_PATH,
+    private readonly maxEntries: number = MAX_ENTRIES,
+    private readonly maxBytes: number = MAX_BYTES
+  ) {}
+
+  async load() {
+    let skipped = 0;
+    try {
+      const lines = readline.createInterface({
+        input: createReadStream(this.filePath, { encoding: 'utf8' }),
+        crlfDelay: Infinity,
+      });
+
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const parsed = JSON.parse(line) as CacheLine;
+          if (typeof parsed.k === 'string' && typeof parsed.v === 'string') {
+            this.remember(parsed.k, parsed.v, line);
+            continue;
+          }
+        } catch {
+          // A crash mid-append leaves a truncated last line; it is dropped on the next compaction.
+        }
+        skipped += 1;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Failed to read embedding cache at ${this.filePath}. Starting empty.`, error);
+        this.entries.clear();
+        this.bytes = 0;
+      }
+      return;
+    }
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} unreadable line${skipped === 1 ? '' : 's'} in ${this.filePath}.`);
+    }
+    if (skipped > 0 || this.isOverLimit()) {
+      await this.exclusive(() => this.compact());
+    }
+  }
+
+  get(text: string, modelVersion: string): number[] | undefined {
+    const key = buildEmbeddingCacheKey(text, modelVersion);
+    const encoded = this.entries.get(key);
+    if (encoded === undefined) {
+      this.stats.misses += 1;
+      return undefined;
+    }
+
+    this.stats.hits += 1;
+    this.entries.delete(key);
+    this.entries.set(key, encoded);
+    return decodeVector(encoded);
+  }
+
+  async setMany(items: { text: string; vector: number[] }[], modelVersion: string) {
+    let added = 0;
+    items.forEach(({ text, vector }) => {
+      const key = buildEmbeddingCacheKey(text, modelVersion);
+      if (this.entries.has(key)) {
+        return;
+      }
+      const entry: CacheLine = { k: key, v: encodeVector(vector) };
+      const line = JSON.stringify(entry);
+      this.remember(key, entry.v, line);
+      this.pendingLines.push(line);
+      added += 1;
+    });
+
+    if (added === 0) {
+      return;
+    }
+
+    this.stats.writes += added;
+    await this.exclusive(() => this.flush());
+  }
+
+  getStats(): EmbeddingCacheStats {
+    return { ...this.stats, entries: this.entries.size, bytes: this.bytes };
+  }
+
+  resetStats() {
+    this.stats.hits = 0;
+    this.stats.misses = 0;
+    this.stats.writes = 0;
+    this.stats.evictions = 0;
+  }
+
+  async clear() {
+    this.entries.clear();
+    this.bytes = 0;
+    this.pendingLines = [];
+    await this.exclusive(async () => {
+      try {
+        await fs.unlink(this.filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    });
+  }
+
+  private remember(key: string, encoded: string, line: string) {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    } else {
+      this.bytes += lineBytes(line);
+    }
+    this.entries.set(key, encoded);
+  }
+
+  private isOverLimit(): boolean {
+    return this.entries.size > this.maxEntries || this.bytes > this.maxBytes;
+  }
+
+  // Embedding workers call setMany concurrently; appends and compactions run one at a
+  // time so a compaction never renames the file over an append still in flight.
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  // Appends the pending lines, or compacts when the cache has grown over its limits.
+  // An earlier flush may already have written them, leaving nothing to do.
+  private async flush() {
+    if (this.isOverLimit()) {
+      await this.compact();
+      return;
+    }
+
+    const lines = this.pendingLines;
+    if (lines.length === 0) {
+      return;
+    }
+    this.pendingLines = [];
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${lines.join('\n')}\n`, 'utf8');
+  }
+
+  // Rewrites the file from memory in least- to most-recently-used order, dropping
+  // the oldest entries until both limits hold. Pending lines are part of the rewrite.
+  private async compact() {
+    this.pendingLines = [];
+    const lines: string[] = [];
+    this.bytes = 0;
+    for (const [key, encoded] of this.entries) {
+      const entry: CacheLine = { k: key, v: encoded };
+      const line = JSON.stringify(entry);
+      lines.push(line);
+      this.bytes += lineBytes(line);
+    }
+
+    const keys = [...this.entries.keys()];
+    let dropped = 0;
+    while (dropped < keys.length && (keys.length - dropped > this.maxEntries || this.bytes > this.maxBytes)) {
+      this.bytes -= lineBytes(lines[dropped]);
+      this.entries.delete(keys[dropped]);
+      dropped += 1;
+    }
+    this.stats.evictions += dropped;
+
+    const kept = lines.slice(dropped);
+    await writeFileAtomic(this.filePath, kept.length ? `${kept.join('\n')}\n` : '');
+  }
+}
+
+let cachePromise: Promise<EmbeddingCache> | null = null;
+
+export async function getEmbeddingCache(): Promise<EmbeddingCache> {
+  if (!cachePromise) {
+    const cache = new EmbeddingCache();
+    cachePromise = (async () => {
+      await cache.load();
+      return cache;
+    })();
+  }
+
+  return cachePromise;
+}
@@ -1 +1,93 @@
-export { embedText, embedTexts } from '../providers/modelProvider';
+import {
+  embedTexts as embedTextsUncached,
+  getEmbeddingModelVersion,
+  parseEmbeddingModelVersion,
+  type ProviderName,
+} from '../providers/modelProvider';
+import {
+  EMBEDDING_CACHE_ENABLED,
+  LruCache,
+  buildEmbeddingCacheKey,
+  getEmbeddingCache,
+  type EmbeddingCacheStats,
+} from './cache';
+
+const QUERY_CACHE_SIZE = Number(process.env.QUERY_EMBEDDING_CACHE_SIZE ?? '256');
+
+// Questions can contain customer data, so query embeddings are only kept in memory.
+const queryCache = new LruCache<number[]>(QUERY_CACHE_SIZE);
+
+export interface EmbedOptions {
+  /**
+   * `provider:model` version to embed with. Vectors from different models are not
+   * comparable, so callers that read or write a namespace pass its version; it takes
+   * precedence over `provider`.
+   */
+  embedVersion?: string;
+}
+
+function resolveModelVersion(provider: string | ProviderName | null | undefined, options: EmbedOptions): string {
+  return options.embedVersion ?? getEmbeddingModelVersion(provider);
+}
+
+function embedWith(texts: string[], modelVersion: string): Promise<number[][]> {
+  const { provider, model } = parseEmbeddingModelVersion(modelVersion);
+  return embedTextsUncached(texts, provider, model);
+}
+
+/**
+ * Embeds document texts with `provider` (the default provider when omitted), serving
+ * repeats from the persistent embedding cache keyed by text hash and embedding model
+ * version. Duplicate texts in one call are sent to the provider once.
+ */
+export async function embedTexts(
+  texts: string[],
+  provider?: string | ProviderName | null,
+  options: EmbedOptions = {}
+): Promise<number[][]> {
+  const modelVersion = resolveModelVersion(provider, options);
+  if (!EMBEDDING_CACHE_ENABLED || texts.length === 0) {
+    return embedWith(texts, modelVersion);
+  }
+
+  const cache = await getEmbeddingCache();
+  const results: (number[] | undefined)[] = texts.map((text) => cache.get(text, modelVersion));
+  const missing = [...new Set(texts.filter((_, idx) => !results[idx]))];
+
+  if (missing.length > 0) {
+    const embeddings = await embedWith(missing, modelVersion);
+    const byText = new Map(missing.map((text, idx) => [text, embeddings[idx]]));
+    texts.forEach((text, idx) => {
+      results[idx] ??= byText.get(text);
+    });
+    await cache.setMany(
+      missing.map((text, idx) => ({ text, vector: embeddings[idx] })),
+      modelVersion
+    );
+  }
+
+  return results as number[][];
+}
+
+export async function embedText(
+  text: string,
+  provider?: string | ProviderName | null,
+  options: EmbedOptions = {}
+): Promise<number[]> {
+  const modelVersion = resolveModelVersion(provider, options);
+  const key = buildEmbeddingCacheKey(text, modelVersion);
+  const cached = queryCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const [embedding] = await embedWith([text], modelVersion);
+  queryCache.set(key, embedding);
+  return embedding;
+}
+
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats | null> {
+  return EMBEDDING_CACHE_ENABLED ? (await getEmbeddingCache()).getStats() : null;
+}
+
+export { EMBEDDING_CACHE_ENABLED, getEmbeddingCache, type EmbeddingCacheStats } from './cache';
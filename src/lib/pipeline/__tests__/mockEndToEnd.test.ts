@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import type { ConfluenceClient, ConfluencePage, FetchPagesResult } from '../../confluence';
+import type { VectorizationLog } from '../vectorLog';
+
+// Ingests a small fixture space with the offline mock provider and answers questions
+// against it, with the LLM reranker on, so no API key or network access is needed.
+// Module constants read the environment and working directory, so both are set
+// before the pipeline is imported.
+process.env.PROVIDER = 'mock';
+process.env.VECTOR_STORE = 'local';
+process.env.QA_RERANKER = 'llm';
+process.env.PII_SCAN_MODE = 'off';
+delete process.env.MOCK_CHAT_SCRIPT;
+
+const SPACE_KEY = 'DOCS';
+
+function fixturePage(id: string, title: string, html: string, version = 1): ConfluencePage {
+  return {
+    id,
+    title,
+    type: 'page',
+    status: 'current',
+    body: { storage: { value: html, representation: 'storage' } },
+    version: { number: version, when: `2025-01-${String(14 + version).padStart(2, '0')}T09:00:00.000Z` },
+    space: { key: SPACE_KEY },
+    _links: { webui: `/display/${SPACE_KEY}/${id}` },
+  };
+}
+
+const INCIDENT_SECTIONS = [
+  '<h2>Detection</h2><p>Alerts page the on-call engineer through the paging rotation.</p>',
+  '<h2>Triage</h2><p>The on-call engineer rates severity and opens an incident channel.</p>',
+  '<h2>Mitigation</h2><p>Roll back or fail over first; find the root cause later.</p>',
+  '<h2>Postmortem</h2><p>Write a blameless postmortem within five working days.</p>',
+];
+
+const PAGES = [
+  fixturePage(
+    '1001',
+    'Deployment runbook',
+    '<h2>Staging</h2><p>Deploy the service to staging with the release pipeline, then run the smoke tests against the staging cluster.</p>'
+  ),
+  fixturePage(
+    '1002',
+    'Vacation policy',
+    '<h2>Annual leave</h2><p>Employees get twenty five vacation days per year. Up to five unused vacation days carry over into the next year.</p>'
+  ),
+  fixturePage(
+    '1003',
+    'Office coffee machine',
+    '<p>Descale the coffee machine every Friday and refill the beans from the kitchen cupboard.</p>'
+  ),
+  fixturePage('1004', 'Incident response', INCIDENT_SECTIONS.join('')),
+];
+
+// Listing batch size and a listing offset that fails once, to interrupt a run part way.
+let listingBatchSize = PAGES.length;
+let failListingAt: number | undefined;
+
+describe('mock provider end to end', () => {
+  const workDir = mkdtempSync(path.join(tmpdir(), 'mock-e2e-'));
+  const originalCwd = process.cwd();
+  let pipeline: typeof import('..');
+  let client: ConfluenceClient;
+  let knowledgeBase: Awaited<ReturnType<(typeof import('..'))['buildKnowledgeBase']>>;
+
+  const build = (options: Partial<Parameters<(typeof import('..'))['buildKnowledgeBase']>[0]> = {}) =>
+    pipeline.buildKnowledgeBase({
+      client,
+      spaceKey: SPACE_KEY,
+      ingestAttachments: false,
+      checkpointEvery: 0,
+      ...options,
+    });
+  const readRunLog = () =>
+    JSON.parse(readFileSync(path.join(workDir, 'logs', 'vectorize-last-run.json'), 'utf8')) as VectorizationLog;
+
+  before(async () => {
+    process.chdir(workDir);
+    const { ConfluenceClient: Client } = await import('../../confluence');
+    pipeline = await import('..');
+
+    class FixtureConfluenceClient extends Client {
+      async fetchPages(_spaceKey?: string, start = 0, limit = 25): Promise<FetchPagesResult> {
+        if (start === failListingAt) {
+          failListingAt = undefined;
+          throw new Error('Confluence is unavailable');
+        }
+        const size = Math.min(limit, listingBatchSize);
+        const pages = PAGES.slice(start, start + size);
+        return {
+          pages,
+          raw: { results: pages, start, limit: size, size: pages.length },
+          hasMore: start + size < PAGES.length,
+          nextStart: start + size,
+        };
+      }
+    }
+
+    client = new FixtureConfluenceClient({ baseUrl: 'http://confluence.invalid', spaceKey: SPACE_KEY });
+    knowledgeBase = await build();
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('ingests every page with mock embeddings', () => {
+    assert.equal(knowledgeBase.stats.embedVersion, 'mock:mock-embedding');
+    assert.equal(knowledgeBase.stats.totalPages, PAGES.length);
+    assert.equal(knowledgeBase.stats.embeddedPages, PAGES.length);
+    assert.ok(knowledgeBase.stats.embeddedChunks >= PAGES.length);
+    assert.ok(knowledgeBase.stats.embeddingUsage.tokens > 0);
+  });
+
+  test('answers a question from the matching page', async () => {
+    const qa = new pipeline.QAEngine(knowledgeBase.store, 2, 'mock');
+    const response = await qa.answerQuestion('How do I deploy the service to staging?');
+
+    assert.equal(response.provider, 'mock');
+    assert.equal(response.answer, '[mock-chat] How do I deploy the service to staging?');
+    assert.equal(response.references[0]?.title, 'Deployment runbook');
+    assert.equal(response.retrievalTrace?.reranker, 'llm');
+    assert.ok((response.retrievalTrace?.results[0]?.rerankedScore ?? 0) > 0);
+  });
+
+  test('rewrites a follow-up into a usable search query', async () => {
+    const qa = new pipeline.QAEngine(knowledgeBase.store, 2, 'mock');
+    const response = await qa.answerQuestion(
+      'Do unused vacation days carry over?',
+      'user: How do I deploy the service to staging?\nassistant: Use the release pipeline.'
+    );
+
+    // The mock returns the follow-up unchanged, so no rewrite is reported.
+    assert.equal(response.retrievalTrace?.rewrittenQuery, undefined);
+    assert.equal(response.references[0]?.title, 'Vacation policy');
+    assert.deepEqual(
+      response.usage?.calls.map((call) => call.purpose),
+      ['query-rewrite', 'rerank', 'answer']
+    );
+  });
+
+  test('streams the answer', async () => {
+    const qa = new pipeline.QAEngine(knowledgeBase.store, 2, 'mock');
+    const { stream, references } = await qa.createStreamingCompletion('When should the coffee machine be descaled?');
+
+    let answer = '';
+    for await (const chunk of stream) {
+      answer += chunk.choices[0]?.delta?.content ?? '';
+    }
+    assert.equal(answer, '[mock-chat] When should the coffee machine be descaled?');
+    assert.equal(references[0]?.title, 'Office coffee machine');
+  });
+
+  test('reuses the vectors of sections shifted by an inserted section', async () => {
+    PAGES[3] = fixturePage(
+      '1004',
+      'Incident response',
+      ['<h2>Scope</h2><p>Applies to every production service.</p>', ...INCIDENT_SECTIONS].join(''),
+      2
+    );
+
+    const rebuilt = await build();
+    const log = readRunLog();
+
+    assert.equal(rebuilt.stats.embeddedPages, 1);
+    assert.equal(log.embeddedPages.length, 1);
+    const [pageLog] = log.embeddedPages;
+    assert.equal(pageLog.pageId, '1004');
+    // Only the new section is embedded; every section below it keeps its vector under a shifted ID.
+    assert.equal(pageLog.embeddedChunks, 1);
+    assert.equal(pageLog.reusedChunks, pageLog.chunkCount - 1);
+
+    const qa = new pipeline.QAEngine(rebuilt.store, 1, 'mock');
+    const response = await qa.answerQuestion('Who writes the blameless postmortem?');
+    assert.equal(response.references[0]?.title, 'Incident response');
+  });
+
+  test('a resumed run logs the pages ingested before the interruption', async () => {
+    PAGES[0] = fixturePage('1001', 'Deployment runbook', `${PAGES[0].body?.storage?.value}<p>Production deploys need a change ticket.</p>`, 2);
+    PAGES[2] = fixturePage('1003', 'Office coffee machine', `${PAGES[2].body?.storage?.value}<p>Empty the drip tray daily.</p>`, 2);
+    listingBatchSize = 2;
+    failListingAt = 2;
+
+    try {
+      await assert.rejects(build({ checkpointEvery: 1, concurrency: 1 }), /Confluence is unavailable/);
+      const resumed = await build({ checkpointEvery: 1, concurrency: 1, resume: true });
+      const log = readRunLog();
+
+      assert.equal(resumed.stats.embeddedPages, 2);
+      assert.deepEqual(log.embeddedPages.map((page) => page.pageId).sort(), ['1001', '1003']);
+      assert.deepEqual(log.skippedPages.map((page) => page.pageId).sort(), ['1002', '1004']);
+      assert.ok(log.chunks.some((chunk) => chunk.pageId === '1001'));
+    } finally {
+      listingBatchSize = PAGES.length;
+      failListingAt = undefined;
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { PageChunk } from '../../confluence/chunk';
+import { applyPiiPolicy, isValidChineseNationalId, isValidIban, maskPii, passesLuhn, scanForPii } from '../pii';
+
+function findingsIn(text: string) {
+  return scanForPii(text).map((finding) => ({ type: finding.type, value: text.slice(finding.start, finding.end) }));
+}
+
+describe('PII checksums', () => {
+  test('passesLuhn accepts test card numbers and rejects a changed digit', () => {
+    assert.equal(passesLuhn('4111111111111111'), true);
+    assert.equal(passesLuhn('5555555555554444'), true);
+    assert.equal(passesLuhn('378282246310005'), true);
+    assert.equal(passesLuhn('4111111111111112'), false);
+  });
+
+  test('isValidIban checks mod-97 with or without spaces', () => {
+    assert.equal(isValidIban('GB82 WEST 1234 5698 7654 32'), true);
+    assert.equal(isValidIban('de89370400440532013000'), true);
+    assert.equal(isValidIban('GB82 WEST 1234 5698 7654 33'), false);
+    assert.equal(isValidIban('GB82 WEST 12'), false);
+  });
+
+  test('isValidChineseNationalId checks the weighted check character', () => {
+    assert.equal(isValidChineseNationalId('11010519491231002X'), true);
+    assert.equal(isValidChineseNationalId('11010519491231002x'), true);
+    assert.equal(isValidChineseNationalId('110105199003071239'), true);
+    assert.equal(isValidChineseNationalId('110105199003071238'), false);
+    assert.equal(isValidChineseNationalId('1101051990030712'), false);
+  });
+});
+
+describe('scanForPii', () => {
+  test('finds a card number followed by more digits', () => {
+    assert.deepEqual(findingsIn('Test card 4111 1111 1111 1111 123 exp 12/25'), [
+      { type: 'card_number', value: '4111 1111 1111 1111' },
+    ]);
+    assert.deepEqual(findingsIn('Card 4111-1111-1111-1111 99'), [{ type: 'card_number', value: '4111-1111-1111-1111' }]);
+    assert.deepEqual(findingsIn('Order 5555555555554444 1'), [{ type: 'card_number', value: '5555555555554444' }]);
+  });
+
+  test('ignores digit runs that fail Luhn or repeat one digit', () => {
+    assert.deepEqual(findingsIn('Ticket 4111 1111 1111 1112'), []);
+    assert.deepEqual(findingsIn('Padding 4444444444444444'), []);
+  });
+
+  test('drops a match overlapping one from an earlier detector', () => {
+    // card_number runs before account_number, so the labelled account match is dropped.
+    assert.deepEqual(findingsIn('Account no: 4111 1111 1111 1111'), [{ type: 'card_number', value: '4111 1111 1111 1111' }]);
+  });
+
+  test('returns findings of different detectors in text order', () => {
+    const text = 'Mail ops@example.com, IBAN GB82 WEST 1234 5698 7654 32, ID 11010519491231002X';
+    assert.deepEqual(
+      findingsIn(text).map((finding) => finding.type),
+      ['email', 'iban', 'national_id']
+    );
+  });
+
+  test('runs only the requested detectors', () => {
+    assert.equal(scanForPii('ops@example.com 4111 1111 1111 1111', ['email']).length, 1);
+  });
+});
+
+describe('maskPii', () => {
+  test('replaces every finding, including ones that shift later offsets', () => {
+    const text = 'a@b.io and 4111111111111111 end';
+    assert.equal(maskPii(text, scanForPii(text)), '[REDACTED:email] and [REDACTED:card_number] end');
+  });
+
+  test('applyPiiPolicy shifts overlapChars by the masked length', () => {
+    const overlap = 'Call a@b.io.';
+    const content = `${overlap}\n\nCard 4111 1111 1111 1111 on file.`;
+    const chunk = { id: '42-1', content, overlapChars: overlap.length + 2, piiFlag: false } as PageChunk;
+
+    const { chunks, summary } = applyPiiPolicy([chunk], 'mask');
+    const [masked] = chunks;
+
+    assert.equal(masked.content, 'Call [REDACTED:email].\n\nCard [REDACTED:card_number] on file.');
+    assert.equal(masked.content.slice(0, masked.overlapChars), 'Call [REDACTED:email].\n\n');
+    assert.equal(masked.piiFlag, true);
+    assert.deepEqual(summary.findings, { email: 1, card_number: 1 });
+  });
+
+  test('applyPiiPolicy counts a value straddling the overlap boundary as overlap', () => {
+    const content = 'Mail ops@example.com today';
+    const chunk = { id: '42-1', content, overlapChars: 'Mail ops@'.length, piiFlag: false } as PageChunk;
+
+    const [masked] = applyPiiPolicy([chunk], 'mask').chunks;
+    assert.equal(masked.content.slice(0, masked.overlapChars), 'Mail [REDACTED:email]');
+  });
+
+  test('flag mode keeps the content', () => {
+    const chunk = { id: '42-0', content: 'ops@example.com', overlapChars: 0, piiFlag: false } as PageChunk;
+    const [flagged] = applyPiiPolicy([chunk], 'flag').chunks;
+    assert.equal(flagged.content, 'ops@example.com');
+    assert.equal(flagged.piiFlag, true);
+  });
+});
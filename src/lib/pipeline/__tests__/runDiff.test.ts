@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { diffVectorizationRuns } from '../runDiff';
+import type { PageSnapshot, VectorizationLog } from '../vectorLog';
+
+const OLD_MODEL = 'openai:text-embedding-3-small';
+const NEW_MODEL = 'openai:text-embedding-3-large';
+
+function snapshot(pageId: string, overrides: Partial<PageSnapshot> = {}): PageSnapshot {
+  return {
+    pageId,
+    pageTitle: `Page ${pageId}`,
+    spaceKey: 'OPS',
+    etag: '1',
+    embedVersion: OLD_MODEL,
+    chunkCount: 2,
+    lastEmbeddedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function runLog(generatedAt: string, knowledgeBase?: PageSnapshot[], embedVersion = OLD_MODEL): VectorizationLog {
+  return {
+    generatedAt,
+    embedVersion,
+    spaces: [],
+    embeddedPages: [],
+    skippedPages: [],
+    deletedPages: [],
+    pii: { mode: 'off', scannedChunks: 0, flaggedChunks: 0, maskedChunks: 0, findings: {} },
+    chunks: [],
+    knowledgeBase,
+  };
+}
+
+const ids = (entries: { pageId: string }[]) => entries.map((entry) => entry.pageId);
+
+describe('diffVectorizationRuns', () => {
+  test('reports added and removed pages with their chunk counts', () => {
+    const diff = diffVectorizationRuns(
+      runLog('2025-01-01T00:00:00.000Z', [snapshot('1'), snapshot('2', { chunkCount: 3 })]),
+      runLog('2025-01-02T00:00:00.000Z', [snapshot('1'), snapshot('3', { chunkCount: 4 })])
+    );
+
+    assert.deepEqual(diff.addedPages, [
+      {
+        pageId: '3',
+        pageTitle: 'Page 3',
+        spaceKey: 'OPS',
+        chunksBefore: undefined,
+        chunksAfter: 4,
+        embedVersionBefore: undefined,
+        embedVersionAfter: OLD_MODEL,
+      },
+    ]);
+    assert.deepEqual(ids(diff.removedPages), ['2']);
+    assert.equal(diff.removedPages[0].chunksBefore, 3);
+    assert.deepEqual(ids(diff.reembeddedPages), []);
+    assert.deepEqual(diff.totals, {
+      pagesBefore: 2,
+      pagesAfter: 2,
+      chunksBefore: 5,
+      chunksAfter: 6,
+      addedPages: 1,
+      removedPages: 1,
+      reembeddedPages: 0,
+    });
+  });
+
+  test('counts a page as re-embedded when its embed time changed, even if renamed', () => {
+    const diff = diffVectorizationRuns(
+      runLog('2025-01-01T00:00:00.000Z', [snapshot('1'), snapshot('2')]),
+      runLog('2025-01-02T00:00:00.000Z', [
+        snapshot('1', { pageTitle: 'Renamed', lastEmbeddedAt: '2025-01-02T00:00:00.000Z', chunkCount: 5 }),
+        snapshot('2'),
+      ])
+    );
+
+    assert.deepEqual(ids(diff.addedPages), []);
+    assert.deepEqual(ids(diff.removedPages), []);
+    assert.deepEqual(ids(diff.reembeddedPages), ['1']);
+    assert.equal(diff.reembeddedPages[0].pageTitle, 'Renamed');
+    assert.deepEqual(
+      diff.chunkCountChanges.map((entry) => [entry.pageId, entry.chunksBefore, entry.chunksAfter]),
+      [['1', 2, 5]]
+    );
+  });
+
+  test('falls back to etag and embed version when snapshots have no embed time', () => {
+    const diff = diffVectorizationRuns(
+      runLog('2025-01-01T00:00:00.000Z', [
+        snapshot('1', { lastEmbeddedAt: undefined }),
+        snapshot('2', { lastEmbeddedAt: undefined }),
+      ]),
+      runLog('2025-01-02T00:00:00.000Z', [
+        snapshot('1', { lastEmbeddedAt: undefined, etag: '2' }),
+        snapshot('2', { lastEmbeddedAt: undefined }),
+      ])
+    );
+
+    assert.deepEqual(ids(diff.reembeddedPages), ['1']);
+  });
+
+  test('lists pages whose embedding model changed', () => {
+    const diff = diffVectorizationRuns(
+      runLog('2025-01-01T00:00:00.000Z', [snapshot('1'), snapshot('2')]),
+      runLog(
+        '2025-01-02T00:00:00.000Z',
+        [snapshot('1', { embedVersion: NEW_MODEL, lastEmbeddedAt: '2025-01-02T00:00:00.000Z' }), snapshot('2')],
+        NEW_MODEL
+      )
+    );
+
+    assert.deepEqual(diff.from, { generatedAt: '2025-01-01T00:00:00.000Z', embedVersion: OLD_MODEL });
+    assert.deepEqual(diff.to, { generatedAt: '2025-01-02T00:00:00.000Z', embedVersion: NEW_MODEL });
+    assert.deepEqual(
+      diff.embedVersionChanges.map((entry) => [entry.pageId, entry.embedVersionBefore, entry.embedVersionAfter]),
+      [['1', OLD_MODEL, NEW_MODEL]]
+    );
+    assert.deepEqual(ids(diff.reembeddedPages), ['1']);
+  });
+
+  test('summarises each space and sorts entries by space and title', () => {
+    const diff = diffVectorizationRuns(
+      runLog('2025-01-01T00:00:00.000Z', [snapshot('1', { spaceKey: 'OPS' })]),
+      runLog('2025-01-02T00:00:00.000Z', [
+        snapshot('1', { spaceKey: 'OPS' }),
+        snapshot('4', { spaceKey: 'HR', pageTitle: 'Vacation' }),
+        snapshot('5', { spaceKey: 'HR', pageTitle: 'Benefits' }),
+        snapshot('6', { spaceKey: 'OPS', pageTitle: 'Alerts', chunkCount: 1 }),
+      ])
+    );
+
+    assert.deepEqual(ids(diff.addedPages), ['5', '4', '6']);
+    assert.deepEqual(
+      diff.spaces.map((space) => [space.spaceKey, space.pagesBefore, space.pagesAfter, space.chunksAfter, space.addedPages]),
+      [
+        ['HR', 0, 2, 4, 2],
+        ['OPS', 1, 2, 3, 1],
+      ]
+    );
+  });
+
+  test('rejects a log without a knowledge base snapshot', () => {
+    assert.throws(
+      () => diffVectorizationRuns(runLog('2025-01-01T00:00:00.000Z'), runLog('2025-01-02T00:00:00.000Z', [])),
+      /The older run log \(2025-01-01T00:00:00.000Z\) has no knowledge base snapshot/
+    );
+  });
+});
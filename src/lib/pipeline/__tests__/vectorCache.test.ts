@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { PageChunk } from '../../confluence/chunk';
+import { buildCacheEntry, diffPageChunks, evaluatePageChange } from '../vectorCache';
+
+const EMBED_VERSION = 'mock:mock-embedding';
+const PAGE = { pageId: '42', title: 'Runbook', markdown: '', etag: '1' };
+
+function chunksOf(contents: string[]): PageChunk[] {
+  return contents.map((content, chunkIndex) => {
+    const id = `${PAGE.pageId}-${chunkIndex}`;
+    return { id, nodeId: id, pageId: PAGE.pageId, chunkIndex, content } as PageChunk;
+  });
+}
+
+function cacheFor(contents: string[], embedVersion = EMBED_VERSION) {
+  return buildCacheEntry(PAGE, embedVersion, chunksOf(contents), '2025-01-01T00:00:00.000Z');
+}
+
+describe('diffPageChunks', () => {
+  test('keeps unchanged chunks and re-embeds edited ones', () => {
+    const diff = diffPageChunks(chunksOf(['alpha', 'beta (edited)', 'gamma']), EMBED_VERSION, cacheFor(['alpha', 'beta', 'gamma']));
+
+    assert.deepEqual(diff.unchanged.map((chunk) => chunk.id), ['42-0', '42-2']);
+    assert.deepEqual(diff.changed.map((chunk) => chunk.id), ['42-1']);
+    assert.deepEqual(diff.moved, []);
+    assert.deepEqual(diff.removedIds, []);
+  });
+
+  test('treats chunks shifted by an insertion as moved, not changed', () => {
+    const diff = diffPageChunks(chunksOf(['intro', 'alpha', 'beta', 'gamma']), EMBED_VERSION, cacheFor(['alpha', 'beta', 'gamma']));
+
+    assert.deepEqual(diff.changed.map((chunk) => chunk.content), ['intro']);
+    assert.deepEqual(
+      diff.moved.map(({ chunk, previousId }) => [chunk.id, previousId]),
+      [
+        ['42-1', '42-0'],
+        ['42-2', '42-1'],
+        ['42-3', '42-2'],
+      ]
+    );
+    assert.deepEqual(diff.unchanged, []);
+  });
+
+  test('treats chunks shifted by a removal as moved and drops the last ID', () => {
+    const diff = diffPageChunks(chunksOf(['beta', 'gamma']), EMBED_VERSION, cacheFor(['alpha', 'beta', 'gamma']));
+
+    assert.deepEqual(diff.changed, []);
+    assert.deepEqual(
+      diff.moved.map(({ chunk, previousId }) => [chunk.id, previousId]),
+      [
+        ['42-0', '42-1'],
+        ['42-1', '42-2'],
+      ]
+    );
+    assert.deepEqual(diff.removedIds, ['42-2']);
+  });
+
+  test('re-embeds everything when the embedding model changed', () => {
+    const diff = diffPageChunks(chunksOf(['alpha', 'beta']), EMBED_VERSION, cacheFor(['alpha', 'beta'], 'openai:text-embedding-3-small'));
+
+    assert.equal(diff.changed.length, 2);
+    assert.deepEqual(diff.unchanged, []);
+    assert.deepEqual(diff.moved, []);
+  });
+});
+
+describe('evaluatePageChange', () => {
+  test('skips a page whose cache entry matches', () => {
+    assert.deepEqual(evaluatePageChange(PAGE, EMBED_VERSION, cacheFor(['alpha'])), { changed: false, reasons: [] });
+  });
+
+  test('refreshes pages whose vectors predate the current metadata fields', () => {
+    const legacy = { ...cacheFor(['alpha']), metadataVersion: undefined };
+    const result = evaluatePageChange(PAGE, EMBED_VERSION, legacy);
+
+    assert.equal(result.changed, true);
+    assert.deepEqual(result.reasons, ['vector metadata outdated (v0 → v1)']);
+    // Content hashes still match, so the refresh reuses every vector instead of re-embedding.
+    assert.equal(diffPageChunks(chunksOf(['alpha']), EMBED_VERSION, legacy).unchanged.length, 1);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  buildAttachmentPage,
+  chunkPage,
+  extractAttachmentMarkdown,
+  resolveAttachmentKind,
+  type ChunkOptions,
+  type CleanConfluencePage,
+  type ConfluenceAttachment,
+  type ConfluenceClient,
+  type PageChunk,
+} from '../confluence';
+import type { AttachmentCacheEntry } from './vectorCache';
+
+export const INGEST_ATTACHMENTS = process.env.CONFLUENCE_INGEST_ATTACHMENTS === 'true';
+const MAX_ATTACHMENT_BYTES = Number(process.env.CONFLUENCE_ATTACHMENT_MAX_BYTES ?? String(20 * 1024 * 1024));
+
+export type AttachmentSignature = Pick<AttachmentCacheEntry, 'attachmentId' | 'filename' | 'version'>;
+
+export interface AttachmentChunkResult {
+  chunks: PageChunk[];
+  entries: AttachmentCacheEntry[];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function toAttachmentSignature(attachment: ConfluenceAttachment): AttachmentSignature {
+  return {
+    attachmentId: attachment.id,
+    filename: attachment.title,
+    version: attachment.version?.number,
+  };
+}
+
+/** Lists the current PDF, DOCX and spreadsheet attachments of a page that are under the size limit. */
+export async function listIndexableAttachments(
+  client: ConfluenceClient,
+  page: CleanConfluencePage,
+  signal?: AbortSignal
+): Promise<ConfluenceAttachment[]> {
+  const attachments = await client.fetchAttachments(page.pageId, signal);
+
+  return attachments.filter((attachment) => {
+    if ((attachment.status && attachment.status !== 'current') || !resolveAttachmentKind(attachment)) {
+      return false;
+    }
+
+    const fileSize = attachment.extensions?.fileSize;
+    if (fileSize && fileSize > MAX_ATTACHMENT_BYTES) {
+      console.log(`Skipping attachment ${attachment.title} on ${page.title} — ${fileSize} bytes exceeds the size limit`);
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Downloads and chunks each attachment with the parent page as context. Download
+ * failures leave the attachment out of the cache so the next run retries it;
+ * extraction failures are cached with the error until the attachment changes.
+ */
+export async function chunkAttachments(
+  client: ConfluenceClient,
+  page: CleanConfluencePage,
+  attachments: ConfluenceAttachment[],
+  options: ChunkOptions,
+  signal?: AbortSignal
+): Promise<AttachmentChunkResult> {
+  const result: AttachmentChunkResult = { chunks: [], entries: [] };
+
+  for (const attachment of attachments) {
+    let data: Buffer;
+    try {
+      data = await client.downloadAttachment(attachment, signal);
+    } catch (error) {
+      console.warn(`Failed to download attachment ${attachment.title} on ${page.title}: ${describeError(error)}`);
+      continue;
+    }
+
+    const signature = toAttachmentSignature(attachment);
+    try {
+      const markdown = await extractAttachmentMarkdown(attachment, data);
+      const chunks = markdown
+        ? chunkPage(
+            buildAttachmentPage(page, attachment, markdown, client.getAttachmentDownloadUrl(attachment)),
+            options
+          )
+        : [];
+
+      result.chunks.push(...chunks);
+      result.entries.push({ ...signature, chunkCount: chunks.length });
+    } catch (error) {
+      console.warn(`Failed to extract text from attachment ${attachment.title} on ${page.title}: ${describeError(error)}`);
+      result.entries.push({ ...signature, chunkCount: 0, error: describeError(error) });
+    }
+  }
+
+  return result;
+}
@@ -1,19 +1,41 @@
-import type { ConfluencePage } from '../confluence';
+import type { ConfluenceAttachment, ConfluencePage } from '../confluence';
 import {
   ConfluenceClient,
   type ConfluenceClientOptions,
+  type FetchPagesResult,
+  buildModifiedPagesCql,
   cleanConfluencePage,
   chunkPage,
+  type ChunkOptions,
   type CleanConfluencePage,
   type PageChunk,
 } from '../confluence';
-import { getEmbeddingModelVersion } from '../providers/modelProvider';
-import { getPineconeStore, PineconeStore } from '../vectorstore';
+import { getEmbeddingModelInfo, getEmbeddingModelVersion } from '../providers/modelProvider';
+import {
+  combineEmbeddingUsage,
+  snapshotEmbeddingUsage,
+  summarizeEmbeddingUsage,
+  type EmbeddingUsageEntry,
+  type EmbeddingUsageSummary,
+} from '../providers/usage';
+import {
+  getVectorStore,
+  parseUpdatedAt,
+  resolveBuildNamespace,
+  type NamespaceTarget,
+  type VectorStore,
+} from '../vectorstore';
+import { loadLexicalIndex, saveLexicalIndex, type LexicalIndex } from '../retrieval';
 import {
   loadVectorCache,
   saveVectorCache,
   evaluatePageChange,
   buildCacheEntry,
+  diffPageChunks,
+  hashChunkConfig,
+  hashChunkContent,
+  type AttachmentCacheEntry,
+  type PageCacheEntry,
   type VectorCacheFile,
 } from './vectorCache';
 import {
@@ -22,17 +44,88 @@ import {
   type EmbeddedPageLog,
   type SkippedPageLog,
   type ChunkLogEntry,
+  type SpaceRunSummary,
+  type DeletedPageLog,
+  type PageSnapshot,
 } from './vectorLog';
+import { isTitleIncluded, type SpaceIngestionConfig } from './spaceConfig';
+import {
+  INGEST_ATTACHMENTS,
+  chunkAttachments,
+  listIndexableAttachments,
+  toAttachmentSignature,
+} from './attachments';
+import {
+  clearRunCheckpoint,
+  hashRunPlan,
+  loadRunCheckpoint,
+  saveRunCheckpoint,
+  type ListingPosition,
+  type ListingRecord,
+  type SpaceCheckpoint,
+} from './checkpoint';
+import {
+  PII_SCAN_MODE,
+  PII_SCAN_TYPES,
+  applyPiiPolicy,
+  createPiiScanSummary,
+  mergePiiScanSummary,
+  type PiiScanMode,
+  type PiiScanSummary,
+} from './pii';
+import { runWithConcurrency } from '../../utils/workerPool';
 
 const DEFAULT_MAX_PAGES = Number(process.env.CONFLUENCE_MAX_PAGES ?? '5');
 const DEFAULT_PAGE_LIMIT = Number(process.env.CONFLUENCE_PAGE_LIMIT ?? '25');
+// CQL compares minutes in the querying user's time zone, so re-list a window
+// before the mark; pages that did not change are skipped by evaluatePageChange.
+const INCREMENTAL_LOOKBACK_MINUTES = Number(process.env.CONFLUENCE_INCREMENTAL_LOOKBACK_MINUTES ?? '1440');
+const ALL_SPACES_MARK_KEY = '*';
+const DEFAULT_CHECKPOINT_PAGES = Number(process.env.VECTORIZE_CHECKPOINT_PAGES ?? '10');
+const DEFAULT_CONCURRENCY = Number(process.env.VECTORIZE_CONCURRENCY ?? '4');
+const PROGRESS_INTERVAL_MS = Number(process.env.VECTORIZE_PROGRESS_INTERVAL_SECONDS ?? '10') * 1000;
 
 export interface BuildKnowledgeBaseOptions {
   spaceKey?: string;
+  /** Per-space settings, usually from confluence-spaces.json. Overrides spaceKey when non-empty. */
+  spaces?: SpaceIngestionConfig[];
   pageLimit?: number;
   maxPages?: number;
   chunkMinTokens?: number;
   chunkMaxTokens?: number;
+  /** Tokens repeated from the previous chunk of the same section. */
+  chunkOverlapTokens?: number;
+  /** Remove vectors and cache entries for pages no longer listed in Confluence. Defaults to true. */
+  pruneDeletedPages?: boolean;
+  /** Report pages that would be pruned without deleting anything. */
+  pruneDryRun?: boolean;
+  /**
+   * Fetch only pages modified since the high-water mark stored in the vector cache,
+   * using CQL search ordered by modification time. Deletion detection only runs for
+   * spaces that have no mark yet, because only those are listed in full.
+   */
+  incremental?: boolean;
+  /** Extract and embed PDF, DOCX and spreadsheet attachments. Defaults to CONFLUENCE_INGEST_ATTACHMENTS. */
+  ingestAttachments?: boolean;
+  /** Flag or mask PII in chunks before embedding. Defaults to PII_SCAN_MODE. */
+  piiScanMode?: PiiScanMode;
+  /**
+   * Continue from the checkpoint left by an interrupted run: finished spaces are
+   * skipped and the interrupted space is listed again from its last batch.
+   */
+  resume?: boolean;
+  /** Save the cache, lexical index and checkpoint every N pages; 0 saves only at the end. Defaults to 10. */
+  checkpointEvery?: number;
+  /**
+   * Pages of a listing batch ingested at the same time. Embedding and vector store
+   * calls are throttled by EMBEDDING_RPM/EMBEDDING_TPM and retried on 429. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * Namespace to write into. Defaults to the namespace derived from the embedding
+   * model version, or the configured namespace when VECTOR_NAMESPACE_VERSIONING is off.
+   */
+  namespace?: NamespaceTarget;
   signal?: AbortSignal;
   client?: ConfluenceClient;
   clientOptions?: ConfluenceClientOptions;
@@ -40,40 +133,136 @@ export interface BuildKnowledgeBaseOptions {
 
 export interface KnowledgeBaseStats {
   embedVersion: string;
+  namespace: string;
   totalPages: number;
   embeddedPages: number;
   skippedPages: number;
+  deletedPages: number;
   embeddedChunks: number;
+  reusedChunks: number;
+  pii: PiiScanSummary;
+  spaces: SpaceRunSummary[];
+  throughput: ThroughputStats;
+  embeddingUsage: EmbeddingUsageSummary;
+}
+
+export interface ThroughputStats {
+  concurrency: number;
+  durationMs: number;
+  /** Pages ingested (embedded, skipped or excluded) in this process. */
+  pages: number;
+  /** Chunks sent to the embedding provider in this process. */
+  chunks: number;
+  pagesPerSecond: number;
+  chunksPerSecond: number;
 }
 
 export interface KnowledgeBase {
-  store: PineconeStore;
+  store: VectorStore;
   pages: CleanConfluencePage[];
   chunks: PageChunk[];
   embeddedPages: CleanConfluencePage[];
   skippedPages: CleanConfluencePage[];
   stats: KnowledgeBaseStats;
+  /** Timestamped copy of the run log under logs/vectorize-history. */
+  runLogPath: string;
+}
+
+interface SpacePlan {
+  spaceKey?: string;
+  pageLimit: number;
+  maxBatches: number;
+  chunkMinTokens?: number;
+  chunkMaxTokens?: number;
+  chunkOverlapTokens?: number;
+  includeTitlePatterns: RegExp[];
+  excludeTitlePatterns: RegExp[];
+}
+
+interface BuildState {
+  store: VectorStore;
+  namespace: string;
+  cache: VectorCacheFile;
+  lexicalIndex: LexicalIndex;
+  embedVersion: string;
+  ingestAttachments: boolean;
+  piiScanMode: PiiScanMode;
+  pii: PiiScanSummary;
+  pages: CleanConfluencePage[];
+  embeddedPages: CleanConfluencePage[];
+  skippedPages: CleanConfluencePage[];
+  embeddedChunks: PageChunk[];
+  embeddedPageLogs: EmbeddedPageLog[];
+  skippedPageLogs: SkippedPageLog[];
+  deletedPageLogs: DeletedPageLog[];
+  chunkLogEntries: ChunkLogEntry[];
+  listedPageIds: Set<string>;
+  excludedPageIds: Set<string>;
+  /** Pages logged before the checkpoint a resumed run started from; they are not ingested again. */
+  resumedPageIds: Set<string>;
+  listings: ListingRecord[];
+  spaceSummaries: SpaceRunSummary[];
+  currentSpace?: SpaceCheckpoint;
+  planHash: string;
+  startedAt: string;
+  checkpointEvery: number;
+  pagesSinceCheckpoint: number;
+  /** Tail of the save chain; workers that hit the checkpoint interval queue behind it. */
+  saving: Promise<void>;
+  throughput: ThroughputTracker;
+  /** Usage carried over from a checkpoint, and the process counters when this attempt started. */
+  embeddingUsage: { carried: EmbeddingUsageEntry[]; start: EmbeddingUsageEntry[] };
+}
+
+interface ThroughputTracker {
+  concurrency: number;
+  startedAt: number;
+  lastReportAt: number;
+  pages: number;
+  chunks: number;
+}
+
+type ListPagesBatch = (position: ListingPosition, limit: number) => Promise<FetchPagesResult>;
+
+interface ListedPageBatch {
+  /** Position this batch was listed from. */
+  position: ListingPosition;
+  /** Batches listed so far, including this one. */
+  batchesFetched: number;
+  pages: ConfluencePage[];
+  /** Every page the listing returned, including pages whose content could not be fetched. */
+  listedPages: ConfluencePage[];
+  failedPageIds: Set<string>;
+  /** Position of the following batch, or null when nothing more can be listed. */
+  next: ListingPosition | null;
+  /** False while more pages remain, or when the listing stopped at an unparseable next link. */
+  complete: boolean;
 }
 
-async function fetchPagesWithContent(
+/**
+ * Lists pages batch by batch from a given position and fetches missing bodies, so
+ * each batch can be ingested and checkpointed before the next one is requested.
+ */
+async function* listPagesWithContent(
   client: ConfluenceClient,
-  spaceKey: string | undefined,
+  listBatch: ListPagesBatch,
   pageLimit: number,
-  maxPages: number,
+  maxBatches: number,
+  from: Pick<SpaceCheckpoint, 'position' | 'batchesFetched'>,
   signal?: AbortSignal
-): Promise<ConfluencePage[]> {
-  const pagesWithContent: ConfluencePage[] = [];
-  let start = 0;
-  let batchesFetched = 0;
-  let hasMore = true;
+): AsyncGenerator<ListedPageBatch> {
+  let position = from.position;
+  let batchesFetched = from.batchesFetched;
 
-  while (hasMore && batchesFetched < maxPages) {
-    const { pages, hasMore: batchHasMore, nextStart } = await client.fetchPages(spaceKey, start, pageLimit, signal);
+  while (batchesFetched < maxBatches) {
+    const { pages, hasMore: batchHasMore, nextStart, nextCursor } = await listBatch(position, pageLimit);
 
     if (pages.length === 0) {
-      break;
+      yield { position, batchesFetched, pages: [], listedPages: [], failedPageIds: new Set(), next: null, complete: true };
+      return;
     }
 
+    const failedPageIds = new Set<string>();
     const expandedPages = await Promise.all(
       pages.map(async (page) => {
         if (page.body?.storage?.value && page.version?.number != null) {
@@ -88,24 +277,80 @@ async function fetchPagesWithContent(
               error instanceof Error ? error.message : String(error)
             }`
           );
+          failedPageIds.add(page.id);
           return null;
         }
       })
     );
 
-    pagesWithContent.push(
-      ...expandedPages.filter((page): page is ConfluencePage => page !== null && !!page.body?.storage?.value)
-    );
-
     batchesFetched += 1;
-    hasMore = batchHasMore && typeof nextStart === 'number';
-    start = typeof nextStart === 'number' ? nextStart : start + pageLimit;
+    const hasNext = batchHasMore && (typeof nextStart === 'number' || Boolean(nextCursor));
+    const next = hasNext
+      ? { start: typeof nextStart === 'number' ? nextStart : position.start + pageLimit, cursor: nextCursor }
+      : null;
+
+    yield {
+      position,
+      batchesFetched,
+      pages: expandedPages.filter((page): page is ConfluencePage => page !== null && !!page.body?.storage?.value),
+      listedPages: pages,
+      failedPageIds,
+      next,
+      complete: !batchHasMore,
+    };
+
+    if (!next) {
+      return;
+    }
+    position = next;
+  }
+}
+
+/**
+ * Advances the mark to the newest modification time in an ascending listing, but
+ * never past a page whose content failed to load so the next run retries it.
+ */
+function advanceHighWaterMark(
+  current: string | undefined,
+  listedPages: SpaceCheckpoint['listedPages'],
+  failedPageIds: Set<string>
+): string | undefined {
+  let ceiling = Number.POSITIVE_INFINITY;
+  listedPages
+    .filter((page) => failedPageIds.has(page.id))
+    .forEach((page) => {
+      ceiling = Math.min(ceiling, parseUpdatedAt(page.when) ?? Number.NEGATIVE_INFINITY);
+    });
+
+  let latest = parseUpdatedAt(current) ?? Number.NEGATIVE_INFINITY;
+  listedPages.forEach((page) => {
+    const modifiedAt = parseUpdatedAt(page.when);
+    if (modifiedAt !== undefined && modifiedAt < ceiling && modifiedAt > latest) {
+      latest = modifiedAt;
+    }
+  });
+
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : current;
+}
+
+function createListBatch(
+  client: ConfluenceClient,
+  plan: SpacePlan,
+  incremental: boolean,
+  modifiedSince: Date | undefined,
+  signal?: AbortSignal
+): ListPagesBatch {
+  if (!incremental) {
+    return (position, limit) => client.fetchPages(plan.spaceKey, position.start, limit, signal);
   }
 
-  return pagesWithContent;
+  const cql = buildModifiedPagesCql(plan.spaceKey, modifiedSince);
+  console.log(`Searching Confluence with CQL: ${cql}`);
+  return (position, limit) =>
+    client.searchByCql(cql, { start: position.start, cursor: position.cursor, limit, signal });
 }
 
-function buildChunkLogEntries(chunks: PageChunk[]): ChunkLogEntry[] {
+function buildChunkLogEntries(chunks: PageChunk[], reusedIds: Set<string>): ChunkLogEntry[] {
   return chunks.map((chunk) => ({
     chunkId: chunk.id,
     nodeId: chunk.nodeId,
@@ -119,17 +364,30 @@ function buildChunkLogEntries(chunks: PageChunk[]): ChunkLogEntry[] {
     embedVersion: chunk.embedVersion,
     tokenEstimate: chunk.tokenEstimate,
     piiFlag: chunk.piiFlag,
+    attachmentFilename: chunk.attachmentFilename,
+    contentHash: hashChunkContent(chunk.content),
+    reusedEmbedding: reusedIds.has(chunk.id),
   }));
 }
 
-function buildEmbeddedPageLog(page: CleanConfluencePage, chunkCount: number): EmbeddedPageLog {
+function buildEmbeddedPageLog(
+  page: CleanConfluencePage,
+  counts: Pick<EmbeddedPageLog, 'chunkCount' | 'embeddedChunks' | 'reusedChunks' | 'removedChunks'>,
+  attachments?: AttachmentCacheEntry[]
+): EmbeddedPageLog {
   return {
     pageId: page.pageId,
     pageTitle: page.title,
     spaceKey: page.spaceKey,
     etag: page.etag,
     updatedAt: page.updatedAt,
-    chunkCount,
+    ...counts,
+    attachments: attachments?.map(({ attachmentId, filename, chunkCount: attachmentChunks, error }) => ({
+      attachmentId,
+      filename,
+      chunkCount: attachmentChunks,
+      error,
+    })),
   };
 }
 
@@ -137,6 +395,7 @@ function buildSkippedPageLog(page: CleanConfluencePage, reasons: string[]): Skip
   return {
     pageId: page.pageId,
     pageTitle: page.title,
+    spaceKey: page.spaceKey,
     reasons: reasons.length > 0 ? reasons : ['no changes detected'],
     etag: page.etag,
     updatedAt: page.updatedAt,
@@ -148,102 +407,646 @@ function updateCacheEntry(
   page: CleanConfluencePage,
   embedVersion: string,
   chunks: PageChunk[],
-  embeddedAt: string
+  embeddedAt: string,
+  attachments?: AttachmentCacheEntry[],
+  chunkConfigHash?: string
 ) {
-  cache.pages[page.pageId] = buildCacheEntry(page, embedVersion, chunks, embeddedAt);
+  cache.pages[page.pageId] = buildCacheEntry(page, embedVersion, chunks, embeddedAt, attachments, chunkConfigHash);
 }
 
-export async function buildKnowledgeBase(
-  options: BuildKnowledgeBaseOptions = {}
-): Promise<KnowledgeBase> {
-  const client = options.client ?? new ConfluenceClient(options.clientOptions);
+function snapshotKnowledgeBase(cache: VectorCacheFile): PageSnapshot[] {
+  return Object.values(cache.pages)
+    .map((entry) => ({
+      pageId: entry.pageId,
+      pageTitle: entry.pageTitle,
+      spaceKey: entry.spaceKey,
+      etag: entry.etag,
+      updatedAt: entry.updatedAt,
+      embedVersion: entry.embedVersion,
+      chunkCount: entry.chunkCount,
+      lastEmbeddedAt: entry.lastEmbeddedAt,
+    }))
+    .sort((a, b) => a.pageId.localeCompare(b.pageId));
+}
+
+function resolveSpacePlans(options: BuildKnowledgeBaseOptions, client: ConfluenceClient): SpacePlan[] {
   const pageLimit = options.pageLimit ?? DEFAULT_PAGE_LIMIT;
-  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
-  const spaceKey = options.spaceKey ?? client.getDefaultSpaceKey();
+  const maxBatches = options.maxPages ?? DEFAULT_MAX_PAGES;
 
-  const embedVersion = getEmbeddingModelVersion();
-  const cache = await loadVectorCache();
-
-  const pages = await fetchPagesWithContent(client, spaceKey, pageLimit, maxPages, options.signal);
-  const cleanedPages = pages
-    .map(cleanConfluencePage)
-    .filter((page): page is CleanConfluencePage => page !== null);
-
-  const store = await getPineconeStore();
-
-  const embeddedPages: CleanConfluencePage[] = [];
-  const skippedPages: CleanConfluencePage[] = [];
-  const embeddedChunks: PageChunk[] = [];
-  const embeddedPageLogs: EmbeddedPageLog[] = [];
-  const skippedPageLogs: SkippedPageLog[] = [];
-  const chunkLogEntries: ChunkLogEntry[] = [];
-
-  for (const page of cleanedPages) {
-    const cached = cache.pages[page.pageId];
-    const { changed, reasons } = evaluatePageChange(page, embedVersion, cached);
-
-    if (!changed) {
-      console.log(`Skipping ${page.title} — unchanged`);
-      skippedPages.push(page);
-      skippedPageLogs.push(buildSkippedPageLog(page, reasons));
-      continue;
+  if (options.spaces?.length) {
+    return options.spaces.map((space) => ({
+      spaceKey: space.key,
+      pageLimit: space.pageLimit ?? pageLimit,
+      maxBatches: space.maxBatches ?? maxBatches,
+      chunkMinTokens: space.chunkMinTokens ?? options.chunkMinTokens,
+      chunkMaxTokens: space.chunkMaxTokens ?? options.chunkMaxTokens,
+      chunkOverlapTokens: space.chunkOverlapTokens ?? options.chunkOverlapTokens,
+      includeTitlePatterns: space.includeTitlePatterns,
+      excludeTitlePatterns: space.excludeTitlePatterns,
+    }));
+  }
+
+  return [
+    {
+      spaceKey: options.spaceKey ?? client.getDefaultSpaceKey(),
+      pageLimit,
+      maxBatches,
+      chunkMinTokens: options.chunkMinTokens,
+      chunkMaxTokens: options.chunkMaxTokens,
+      chunkOverlapTokens: options.chunkOverlapTokens,
+      includeTitlePatterns: [],
+      excludeTitlePatterns: [],
+    },
+  ];
+}
+
+interface SpaceIngestContext {
+  plan: SpacePlan;
+  summary: SpaceRunSummary;
+  chunkOptions: ChunkOptions;
+  chunkConfigHash: string;
+}
+
+// Returns the number of chunks sent to the embedding provider for the page.
+async function ingestPage(
+  client: ConfluenceClient,
+  listedPage: ConfluencePage,
+  context: SpaceIngestContext,
+  state: BuildState,
+  signal?: AbortSignal
+): Promise<number> {
+  const { store, cache, lexicalIndex, embedVersion } = state;
+  const { plan, summary, chunkOptions, chunkConfigHash } = context;
+
+  if (!isTitleIncluded(listedPage.title ?? '', plan)) {
+    console.log(`Skipping ${listedPage.title} — excluded by title pattern`);
+    state.excludedPageIds.add(listedPage.id);
+    summary.excludedPages += 1;
+    state.skippedPageLogs.push({
+      pageId: listedPage.id,
+      pageTitle: listedPage.title,
+      spaceKey: listedPage.space?.key ?? plan.spaceKey,
+      reasons: ['excluded by title pattern'],
+    });
+    return 0;
+  }
+
+  const page = cleanConfluencePage(listedPage);
+  if (!page) {
+    return 0;
+  }
+
+  summary.totalPages += 1;
+  state.pages.push(page);
+  const cached = cache.pages[page.pageId];
+
+  let attachments: ConfluenceAttachment[] | undefined;
+  if (state.ingestAttachments) {
+    try {
+      attachments = await listIndexableAttachments(client, page, signal);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Skipping ${page.title} — failed to list attachments: ${message}`);
+      state.skippedPages.push(page);
+      state.skippedPageLogs.push(buildSkippedPageLog(page, [`failed to list attachments: ${message}`]));
+      summary.skippedPages += 1;
+      return 0;
     }
+  }
 
-    const chunks = chunkPage(page, {
-      minTokens: options.chunkMinTokens,
-      maxTokens: options.chunkMaxTokens,
-      embedVersion,
+  const { changed, reasons } = evaluatePageChange(page, embedVersion, cached, {
+    attachments: attachments?.map(toAttachmentSignature),
+    chunkConfigHash,
+  });
+
+  if (!changed) {
+    console.log(`Skipping ${page.title} — unchanged`);
+    state.skippedPages.push(page);
+    state.skippedPageLogs.push(buildSkippedPageLog(page, reasons));
+    summary.skippedPages += 1;
+
+    // Backfill the lexical index for pages embedded before it existed.
+    if (!lexicalIndex.hasPage(page.pageId)) {
+      const { chunks: backfillChunks } = applyPiiPolicy(chunkPage(page, chunkOptions), state.piiScanMode, {
+        tokenizerModel: chunkOptions.tokenizerModel,
+      });
+      lexicalIndex.replacePageChunks(page.pageId, backfillChunks);
+    }
+    return 0;
+  }
+
+  const attachmentResult = attachments?.length
+    ? await chunkAttachments(client, page, attachments, chunkOptions, signal)
+    : undefined;
+  const { chunks, summary: piiSummary } = applyPiiPolicy(
+    [...chunkPage(page, chunkOptions), ...(attachmentResult?.chunks ?? [])],
+    state.piiScanMode,
+    { tokenizerModel: chunkOptions.tokenizerModel }
+  );
+  const attachmentEntries = attachments ? attachmentResult?.entries ?? [] : undefined;
+
+  if (chunks.length === 0) {
+    console.log(`Skipping ${page.title} — no content after chunking`);
+    state.skippedPages.push(page);
+    state.skippedPageLogs.push(buildSkippedPageLog(page, ['no content after chunking']));
+    summary.skippedPages += 1;
+    return 0;
+  }
+
+  const reasonText = reasons.length > 0 ? reasons.join(', ') : 're-embedding requested';
+  const diff = diffPageChunks(chunks, embedVersion, cached);
+  console.log(
+    `Embedding ${page.title} — ${diff.changed.length} of ${chunks.length} chunk${
+      chunks.length === 1 ? '' : 's'
+    } changed, ${diff.moved.length} moved, ${diff.removedIds.length} removed (${reasonText})`
+  );
+
+  // Without a cache entry the store may still hold vectors from a lost cache, so clear the page.
+  if (!cached) {
+    await store.deletePageChunks(page.pageId);
+  }
+
+  // Unchanged and moved chunks keep their vectors but still need fresh etag, dates and
+  // section ranges. This runs before the upsert and deletes, which may overwrite or
+  // remove the IDs moved chunks copy their vectors from.
+  const reuses = [
+    ...diff.unchanged.map((chunk) => ({ chunk, sourceId: chunk.id })),
+    ...diff.moved.map(({ chunk, previousId }) => ({ chunk, sourceId: previousId })),
+  ];
+  const missingIds = new Set(await store.reuseChunkVectors(reuses));
+  const chunksToEmbed = [...diff.changed, ...reuses.map(({ chunk }) => chunk).filter((chunk) => missingIds.has(chunk.id))];
+  const reusedIds = new Set(reuses.map(({ chunk }) => chunk.id).filter((id) => !missingIds.has(id)));
+  await store.upsertChunks(chunksToEmbed);
+  if (cached && diff.removedIds.length > 0) {
+    await store.deleteChunks(diff.removedIds);
+  }
+  lexicalIndex.replacePageChunks(page.pageId, chunks);
+
+  mergePiiScanSummary(state.pii, piiSummary);
+  summary.piiFlaggedChunks += piiSummary.flaggedChunks;
+  if (piiSummary.flaggedChunks > 0) {
+    console.log(
+      `${state.piiScanMode === 'mask' ? 'Masked' : 'Flagged'} PII in ${piiSummary.flaggedChunks} chunk${
+        piiSummary.flaggedChunks === 1 ? '' : 's'
+      } of ${page.title}`
+    );
+  }
+
+  state.embeddedPages.push(page);
+  state.embeddedChunks.push(...chunksToEmbed);
+  state.embeddedPageLogs.push(
+    buildEmbeddedPageLog(
+      page,
+      {
+        chunkCount: chunks.length,
+        embeddedChunks: chunksToEmbed.length,
+        reusedChunks: reusedIds.size,
+        removedChunks: diff.removedIds.length,
+      },
+      attachmentEntries
+    )
+  );
+  state.chunkLogEntries.push(...buildChunkLogEntries(chunks, reusedIds));
+  summary.embeddedPages += 1;
+  summary.embeddedChunks += chunksToEmbed.length;
+  summary.reusedChunks += reusedIds.size;
+
+  const embeddedAt = new Date().toISOString();
+  updateCacheEntry(cache, page, embedVersion, chunks, embeddedAt, attachmentEntries, chunkConfigHash);
+  return chunksToEmbed.length;
+}
+
+function runEmbeddingUsage(state: BuildState): EmbeddingUsageEntry[] {
+  const sinceStart = combineEmbeddingUsage(snapshotEmbeddingUsage(), state.embeddingUsage.start, -1);
+  return combineEmbeddingUsage(state.embeddingUsage.carried, sinceStart);
+}
+
+async function writeProgress(state: BuildState) {
+  // Snapshot the checkpoint before saving the cache: pages finished by other workers
+  // in the meantime are then in the cache but not marked processed, and a resumed
+  // run re-checks them instead of skipping pages the cache never recorded.
+  const current = state.currentSpace;
+  const checkpoint = {
+    planHash: state.planHash,
+    namespace: state.namespace,
+    startedAt: state.startedAt,
+    completedSpaces: state.spaceSummaries.map((summary) => ({ ...summary })),
+    listings: [...state.listings],
+    listedPageIds: [...state.listedPageIds],
+    excludedPageIds: [...state.excludedPageIds],
+    current: current && {
+      ...current,
+      processedPageIds: [...current.processedPageIds],
+      listedPages: [...current.listedPages],
+      failedPageIds: [...current.failedPageIds],
+      summary: { ...current.summary },
+    },
+    embeddingUsage: runEmbeddingUsage(state),
+    log: {
+      embeddedPages: [...state.embeddedPageLogs],
+      skippedPages: [...state.skippedPageLogs],
+      deletedPages: [...state.deletedPageLogs],
+      chunks: [...state.chunkLogEntries],
+      pii: { ...state.pii, findings: { ...state.pii.findings } },
+    },
+  };
+  state.pagesSinceCheckpoint = 0;
+
+  await saveVectorCache(state.cache, state.namespace);
+  await saveLexicalIndex(state.lexicalIndex, state.namespace);
+  await saveRunCheckpoint(checkpoint);
+}
+
+/**
+ * Persists the vector cache, lexical index and run checkpoint together, so a
+ * resumed run sees vectors, cache entries and listing position that agree. Saves
+ * requested by concurrent workers run one after another.
+ */
+function saveProgress(state: BuildState): Promise<void> {
+  const saved = state.saving.then(() => writeProgress(state));
+  state.saving = saved.catch(() => undefined);
+  return saved;
+}
+
+async function checkpointIfDue(state: BuildState) {
+  state.pagesSinceCheckpoint += 1;
+  if (state.checkpointEvery > 0 && state.pagesSinceCheckpoint >= state.checkpointEvery) {
+    await saveProgress(state);
+  }
+}
+
+function createThroughputTracker(concurrency: number): ThroughputTracker {
+  const now = Date.now();
+  return { concurrency, startedAt: now, lastReportAt: now, pages: 0, chunks: 0 };
+}
+
+function summarizeThroughput(tracker: ThroughputTracker): ThroughputStats {
+  const durationMs = Date.now() - tracker.startedAt;
+  const seconds = Math.max(durationMs / 1000, 0.001);
+  return {
+    concurrency: tracker.concurrency,
+    durationMs,
+    pages: tracker.pages,
+    chunks: tracker.chunks,
+    pagesPerSecond: tracker.pages / seconds,
+    chunksPerSecond: tracker.chunks / seconds,
+  };
+}
+
+function recordThroughput(state: BuildState, chunks: number) {
+  const tracker = state.throughput;
+  tracker.pages += 1;
+  tracker.chunks += chunks;
+
+  const now = Date.now();
+  if (now - tracker.lastReportAt < PROGRESS_INTERVAL_MS) {
+    return;
+  }
+  tracker.lastReportAt = now;
+  const { pagesPerSecond, chunksPerSecond } = summarizeThroughput(tracker);
+  console.log(
+    `Progress: ${tracker.pages} pages, ${tracker.chunks} chunks embedded (${pagesPerSecond.toFixed(
+      2
+    )} pages/s, ${chunksPerSecond.toFixed(2)} chunks/s)`
+  );
+}
+
+function createSpaceSummary(spaceKey?: string): SpaceRunSummary {
+  return {
+    spaceKey,
+    totalPages: 0,
+    embeddedPages: 0,
+    skippedPages: 0,
+    excludedPages: 0,
+    deletedPages: 0,
+    embeddedChunks: 0,
+    reusedChunks: 0,
+    piiFlaggedChunks: 0,
+  };
+}
+
+async function ingestSpace(
+  client: ConfluenceClient,
+  plan: SpacePlan,
+  state: BuildState,
+  incremental: boolean,
+  resumeFrom?: SpaceCheckpoint,
+  signal?: AbortSignal
+): Promise<SpaceRunSummary> {
+  const { cache, embedVersion } = state;
+  const markKey = plan.spaceKey ?? ALL_SPACES_MARK_KEY;
+  const progress: SpaceCheckpoint = resumeFrom ?? {
+    markKey,
+    position: { start: 0 },
+    batchesFetched: 0,
+    processedPageIds: [],
+    listedPages: [],
+    failedPageIds: [],
+    summary: createSpaceSummary(plan.spaceKey),
+  };
+  const { summary } = progress;
+  state.currentSpace = progress;
+
+  // The mark only moves once the space finishes, so a resumed space repeats the same search.
+  const currentMark = incremental ? cache.highWaterMarks?.[markKey] : undefined;
+  const currentMarkMs = parseUpdatedAt(currentMark);
+  const modifiedSince =
+    currentMarkMs !== undefined ? new Date(currentMarkMs - INCREMENTAL_LOOKBACK_MINUTES * 60_000) : undefined;
+
+  console.log(
+    `${resumeFrom ? 'Resuming' : 'Fetching'} Confluence space ${plan.spaceKey ?? '(all spaces)'}${
+      currentMark ? ` (pages modified since ${currentMark})` : ''
+    }${resumeFrom ? ` at batch ${progress.batchesFetched + 1}` : ''}`
+  );
+
+  const chunkOptions: ChunkOptions = {
+    minTokens: plan.chunkMinTokens,
+    maxTokens: plan.chunkMaxTokens,
+    overlapTokens: plan.chunkOverlapTokens,
+    embedVersion,
+    tokenizerModel: getEmbeddingModelInfo().model,
+  };
+  // PII masking rewrites chunk text, so its settings count as chunking config too.
+  const chunkConfigHash = hashChunkConfig({
+    minTokens: chunkOptions.minTokens,
+    maxTokens: chunkOptions.maxTokens,
+    overlapTokens: chunkOptions.overlapTokens,
+    tokenizerModel: chunkOptions.tokenizerModel,
+    piiScanMode: state.piiScanMode,
+    piiTypes: state.piiScanMode === 'off' ? undefined : PII_SCAN_TYPES,
+  });
+  const context: SpaceIngestContext = { plan, summary, chunkOptions, chunkConfigHash };
+
+  const listedIds = new Set(progress.listedPages.map((page) => page.id));
+  let complete = true;
+
+  for await (const batch of listPagesWithContent(
+    client,
+    createListBatch(client, plan, incremental, modifiedSince, signal),
+    plan.pageLimit,
+    plan.maxBatches,
+    progress,
+    signal
+  )) {
+    complete = batch.complete;
+    progress.batchesFetched = batch.batchesFetched - 1;
+
+    batch.listedPages
+      .filter((page) => !listedIds.has(page.id))
+      .forEach((page) => {
+        listedIds.add(page.id);
+        state.listedPageIds.add(page.id);
+        progress.listedPages.push({ id: page.id, when: page.version?.when });
+      });
+    batch.failedPageIds.forEach((id) => {
+      if (!progress.failedPageIds.includes(id)) {
+        progress.failedPageIds.push(id);
+      }
     });
 
-    if (chunks.length === 0) {
-      console.log(`Skipping ${page.title} — no content after chunking`);
-      skippedPages.push(page);
-      skippedPageLogs.push(buildSkippedPageLog(page, ['no content after chunking']));
+    const processed = new Set(progress.processedPageIds);
+    await runWithConcurrency(
+      batch.pages.filter((page) => !processed.has(page.id) && !state.resumedPageIds.has(page.id)),
+      state.throughput.concurrency,
+      async (page) => {
+        const embeddedChunks = await ingestPage(client, page, context, state, signal);
+        progress.processedPageIds.push(page.id);
+        recordThroughput(state, embeddedChunks);
+        await checkpointIfDue(state);
+      },
+      signal
+    );
+
+    // Keep the last batch's processed IDs so resuming after it skips straight through.
+    if (batch.next) {
+      progress.position = batch.next;
+      progress.batchesFetched = batch.batchesFetched;
+      progress.processedPageIds = [];
+    }
+  }
+
+  state.listings.push({ spaceKey: plan.spaceKey, complete, incremental: Boolean(currentMark) });
+
+  if (incremental) {
+    const nextMark = advanceHighWaterMark(currentMark, progress.listedPages, new Set(progress.failedPageIds));
+    if (nextMark) {
+      cache.highWaterMarks = { ...cache.highWaterMarks, [markKey]: nextMark };
+      summary.highWaterMark = nextMark;
+    }
+  }
+
+  state.currentSpace = undefined;
+  return summary;
+}
+
+function findRemovedPages(state: BuildState): { entry: PageCacheEntry; reason: string }[] {
+  const removed: { entry: PageCacheEntry; reason: string }[] = [];
+
+  state.listings
+    .filter((listing) => listing.incremental || !listing.complete)
+    .forEach((listing) => {
+      console.warn(
+        `Skipping deletion detection for ${listing.spaceKey ?? 'all spaces'}: ${
+          listing.incremental
+            ? 'incremental runs only list recently modified pages.'
+            : 'the page listing was truncated by the batch limit.'
+        }`
+      );
+    });
+
+  for (const entry of Object.values(state.cache.pages)) {
+    if (state.excludedPageIds.has(entry.pageId)) {
+      removed.push({ entry, reason: 'excluded by title pattern' });
       continue;
     }
 
-    const reasonText = reasons.length > 0 ? reasons.join(', ') : 're-embedding requested';
-    console.log(
-      `Embedding ${page.title} — ${chunks.length} chunk${chunks.length === 1 ? '' : 's'} (${reasonText})`
+    if (state.listedPageIds.has(entry.pageId)) {
+      continue;
+    }
+
+    const listing = state.listings.find(
+      (candidate) =>
+        candidate.complete &&
+        !candidate.incremental &&
+        (candidate.spaceKey === undefined || candidate.spaceKey === entry.spaceKey)
     );
+    if (listing) {
+      removed.push({
+        entry,
+        reason: `no longer listed in ${entry.spaceKey ? `space ${entry.spaceKey}` : 'Confluence'} (deleted, archived or moved)`,
+      });
+    }
+  }
 
-    await store.deletePageChunks(page.pageId);
-    await store.upsertChunks(chunks);
+  return removed;
+}
+
+async function pruneRemovedPages(state: BuildState, dryRun: boolean) {
+  for (const { entry, reason } of findRemovedPages(state)) {
+    console.log(`${dryRun ? 'Would delete' : 'Deleting'} ${entry.pageTitle} — ${reason}`);
+
+    if (!dryRun) {
+      await state.store.deletePageChunks(entry.pageId);
+      state.lexicalIndex.removePage(entry.pageId);
+      delete state.cache.pages[entry.pageId];
+    }
+
+    state.deletedPageLogs.push({
+      pageId: entry.pageId,
+      pageTitle: entry.pageTitle,
+      spaceKey: entry.spaceKey,
+      reason,
+      chunkCount: entry.chunkCount,
+      dryRun,
+    });
+  }
+}
+
+export async function buildKnowledgeBase(
+  options: BuildKnowledgeBaseOptions = {}
+): Promise<KnowledgeBase> {
+  const client = options.client ?? new ConfluenceClient(options.clientOptions);
+  const plans = resolveSpacePlans(options, client);
+
+  const embedVersion = getEmbeddingModelVersion();
+  const piiScanMode = options.piiScanMode ?? PII_SCAN_MODE;
+  const incremental = options.incremental ?? false;
+  const target = options.namespace ?? resolveBuildNamespace(embedVersion);
+  if (target.embedVersion && target.embedVersion !== embedVersion) {
+    throw new Error(
+      `Namespace ${target.namespace} holds ${target.embedVersion} vectors but the configured embedding model is ${embedVersion}.`
+    );
+  }
+  console.log(`Writing to namespace ${target.namespace}`);
+
+  const planHash = hashRunPlan({
+    namespace: target.namespace,
+    incremental,
+    spaces: plans.map((plan) => ({
+      spaceKey: plan.spaceKey,
+      pageLimit: plan.pageLimit,
+      maxBatches: plan.maxBatches,
+      include: plan.includeTitlePatterns.map(String),
+      exclude: plan.excludeTitlePatterns.map(String),
+    })),
+  });
+  const checkpoint = options.resume ? await loadRunCheckpoint(planHash) : null;
+  if (options.resume && !checkpoint) {
+    console.log('No usable checkpoint found; starting a new run.');
+  } else if (checkpoint) {
+    console.log(`Resuming the run started at ${checkpoint.startedAt} (checkpoint ${checkpoint.updatedAt})`);
+  }
+
+  // The checkpoint's log is snapshotted with its cache, so pages it lists are already in the cache.
+  const resumedLog = checkpoint?.log;
+  const resumedPii = resumedLog?.pii.mode === piiScanMode ? resumedLog.pii : undefined;
 
-    embeddedPages.push(page);
-    embeddedChunks.push(...chunks);
-    embeddedPageLogs.push(buildEmbeddedPageLog(page, chunks.length));
-    chunkLogEntries.push(...buildChunkLogEntries(chunks));
+  const state: BuildState = {
+    store: await getVectorStore(target),
+    namespace: target.namespace,
+    cache: await loadVectorCache(target.namespace),
+    lexicalIndex: await loadLexicalIndex(target.namespace),
+    embedVersion,
+    ingestAttachments: options.ingestAttachments ?? INGEST_ATTACHMENTS,
+    piiScanMode,
+    pii: resumedPii ?? createPiiScanSummary(piiScanMode),
+    pages: [],
+    embeddedPages: [],
+    skippedPages: [],
+    embeddedChunks: [],
+    embeddedPageLogs: resumedLog?.embeddedPages ?? [],
+    skippedPageLogs: resumedLog?.skippedPages ?? [],
+    deletedPageLogs: resumedLog?.deletedPages ?? [],
+    chunkLogEntries: resumedLog?.chunks ?? [],
+    listedPageIds: new Set(checkpoint?.listedPageIds),
+    excludedPageIds: new Set(checkpoint?.excludedPageIds),
+    resumedPageIds: new Set(
+      [...(resumedLog?.embeddedPages ?? []), ...(resumedLog?.skippedPages ?? [])].map((log) => log.pageId)
+    ),
+    listings: checkpoint?.listings ?? [],
+    spaceSummaries: checkpoint?.completedSpaces ?? [],
+    planHash,
+    startedAt: checkpoint?.startedAt ?? new Date().toISOString(),
+    checkpointEvery: options.checkpointEvery ?? DEFAULT_CHECKPOINT_PAGES,
+    pagesSinceCheckpoint: 0,
+    saving: Promise.resolve(),
+    throughput: createThroughputTracker(options.concurrency ?? DEFAULT_CONCURRENCY),
+    embeddingUsage: { carried: checkpoint?.embeddingUsage ?? [], start: snapshotEmbeddingUsage() },
+  };
+
+  const completedMarkKeys = new Set(
+    state.spaceSummaries.map((summary) => summary.spaceKey ?? ALL_SPACES_MARK_KEY)
+  );
+  for (const plan of plans) {
+    const markKey = plan.spaceKey ?? ALL_SPACES_MARK_KEY;
+    if (completedMarkKeys.has(markKey)) {
+      console.log(`Skipping space ${plan.spaceKey ?? '(all spaces)'} — finished before the interruption`);
+      continue;
+    }
 
-    const embeddedAt = new Date().toISOString();
-    updateCacheEntry(cache, page, embedVersion, chunks, embeddedAt);
+    const resumeFrom = checkpoint?.current?.markKey === markKey ? checkpoint.current : undefined;
+    state.spaceSummaries.push(await ingestSpace(client, plan, state, incremental, resumeFrom, options.signal));
+    if (state.checkpointEvery > 0) {
+      await saveProgress(state);
+    }
   }
 
-  await saveVectorCache(cache);
+  const spaceSummaries = state.spaceSummaries;
+  if (options.pruneDeletedPages ?? true) {
+    await pruneRemovedPages(state, options.pruneDryRun ?? false);
+    spaceSummaries.forEach((summary) => {
+      summary.deletedPages = state.deletedPageLogs.filter(
+        (log) => summary.spaceKey === undefined || log.spaceKey === summary.spaceKey
+      ).length;
+    });
+  }
+
+  await saveVectorCache(state.cache, state.namespace);
+  await saveLexicalIndex(state.lexicalIndex, state.namespace);
+  await clearRunCheckpoint();
 
+  const total = (key: 'totalPages' | 'embeddedPages' | 'skippedPages' | 'embeddedChunks' | 'reusedChunks') =>
+    spaceSummaries.reduce((sum, summary) => sum + summary[key], 0);
+
+  const embeddingUsage = summarizeEmbeddingUsage(runEmbeddingUsage(state));
   const logPayload: VectorizationLog = {
     generatedAt: new Date().toISOString(),
     embedVersion,
-    embeddedPages: embeddedPageLogs,
-    skippedPages: skippedPageLogs,
-    chunks: chunkLogEntries,
+    namespace: state.namespace,
+    resumedFrom: checkpoint?.startedAt,
+    spaces: spaceSummaries,
+    embeddedPages: state.embeddedPageLogs,
+    skippedPages: state.skippedPageLogs,
+    deletedPages: state.deletedPageLogs,
+    pii: state.pii,
+    chunks: state.chunkLogEntries,
+    knowledgeBase: snapshotKnowledgeBase(state.cache),
+    embeddingUsage,
   };
 
-  await writeVectorizationLog(logPayload);
+  const runLogPath = await writeVectorizationLog(logPayload);
 
   return {
-    store,
-    pages: cleanedPages,
-    chunks: embeddedChunks,
-    embeddedPages,
-    skippedPages,
+    store: state.store,
+    pages: state.pages,
+    chunks: state.embeddedChunks,
+    embeddedPages: state.embeddedPages,
+    skippedPages: state.skippedPages,
+    // Totals come from the space summaries so a resumed run still reports the whole run.
     stats: {
       embedVersion,
-      totalPages: cleanedPages.length,
-      embeddedPages: embeddedPages.length,
-      skippedPages: skippedPages.length,
-      embeddedChunks: embeddedChunks.length,
+      namespace: state.namespace,
+      totalPages: total('totalPages'),
+      embeddedPages: total('embeddedPages'),
+      skippedPages: total('skippedPages'),
+      deletedPages: state.deletedPageLogs.length,
+      embeddedChunks: total('embeddedChunks'),
+      reusedChunks: total('reusedChunks'),
+      pii: state.pii,
+      spaces: spaceSummaries,
+      throughput: summarizeThroughput(state.throughput),
+      embeddingUsage,
     },
+    runLogPath,
   };
 }
-
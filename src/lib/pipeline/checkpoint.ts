@@ -0,0 +1,111 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+import type { EmbeddingUsageEntry } from '../providers/usage';
+import type { SpaceRunSummary, VectorizationLog } from './vectorLog';
+
+const CURRENT_CHECKPOINT_VERSION = 1;
+const CHECKPOINT_PATH = path.join(process.cwd(), 'data', 'vectorize-checkpoint.json');
+
+export interface ListingPosition {
+  start: number;
+  cursor?: string;
+}
+
+export interface ListingRecord {
+  spaceKey?: string;
+  complete: boolean;
+  incremental: boolean;
+}
+
+/** Progress through the space being ingested when the checkpoint was written. */
+export interface SpaceCheckpoint {
+  /** Space key, or '*' when no space is configured. */
+  markKey: string;
+  /** Listing position of the batch in progress; resuming lists it again. */
+  position: ListingPosition;
+  /** Batches listed before `position`, counted against maxBatches. */
+  batchesFetched: number;
+  /** Pages of the batch at `position` that were already handled. */
+  processedPageIds: string[];
+  /** Pages listed so far with their modification times, for the high-water mark. */
+  listedPages: { id: string; when?: string }[];
+  failedPageIds: string[];
+  summary: SpaceRunSummary;
+}
+
+export interface RunCheckpoint {
+  version: number;
+  /** Hash of the settings that decide what is listed; a resume with other settings starts over. */
+  planHash: string;
+  /** Namespace the interrupted run was writing to. */
+  namespace?: string;
+  startedAt: string;
+  updatedAt: string;
+  /** Summaries of spaces that finished; their mark key is the space key or '*'. */
+  completedSpaces: SpaceRunSummary[];
+  listings: ListingRecord[];
+  listedPageIds: string[];
+  excludedPageIds: string[];
+  current?: SpaceCheckpoint;
+  /** Embedding usage of the run up to the checkpoint, so a resumed run reports the whole cost. */
+  embeddingUsage?: EmbeddingUsageEntry[];
+  /** Run log entries and PII totals up to the checkpoint, so a resumed run's log covers the whole run. */
+  log?: Pick<VectorizationLog, 'embeddedPages' | 'skippedPages' | 'deletedPages' | 'chunks' | 'pii'>;
+}
+
+export function hashRunPlan(plan: unknown): string {
+  return createHash('sha256').update(JSON.stringify(plan)).digest('hex');
+}
+
+/**
+ * Loads the checkpoint left by an interrupted vectorize run. Returns null when
+ * there is none, or when it was written for different listing settings.
+ */
+export async function loadRunCheckpoint(planHash: string): Promise<RunCheckpoint | null> {
+  let checkpoint: RunCheckpoint;
+  try {
+    checkpoint = JSON.parse(await fs.readFile(CHECKPOINT_PATH, 'utf8')) as RunCheckpoint;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Failed to read vectorize checkpoint. Starting a new run.', error);
+    }
+    return null;
+  }
+
+  if (checkpoint?.version !== CURRENT_CHECKPOINT_VERSION) {
+    console.warn('Ignoring vectorize checkpoint from an older version. Starting a new run.');
+    return null;
+  }
+
+  if (checkpoint.planHash !== planHash) {
+    console.warn('Ignoring vectorize checkpoint written with different space or paging settings. Starting a new run.');
+    return null;
+  }
+
+  return checkpoint;
+}
+
+/** Reads the checkpoint without checking it against a run plan, e.g. to see whether a build is unfinished. */
+export async function peekRunCheckpoint(): Promise<RunCheckpoint | null> {
+  try {
+    const checkpoint = JSON.parse(await fs.readFile(CHECKPOINT_PATH, 'utf8')) as RunCheckpoint;
+    return checkpoint?.version === CURRENT_CHECKPOINT_VERSION ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveRunCheckpoint(checkpoint: Omit<RunCheckpoint, 'version' | 'updatedAt'>): Promise<void> {
+  const payload: RunCheckpoint = {
+    ...checkpoint,
+    version: CURRENT_CHECKPOINT_VERSION,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeFileAtomic(CHECKPOINT_PATH, `${JSON.stringify(payload, null, 2)}\n`);
+}
+
+export async function clearRunCheckpoint(): Promise<void> {
+  await fs.rm(CHECKPOINT_PATH, { force: true });
+}
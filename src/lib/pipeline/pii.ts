@@ -0,0 +1,289 @@
+import type { PageChunk } from '../confluence';
+import { countTokens } from '../providers/tokenizer';
+
+export type PiiType = 'account_number' | 'iban' | 'card_number' | 'national_id' | 'cn_mobile' | 'email' | 'secret';
+
+export type PiiScanMode = 'off' | 'flag' | 'mask';
+
+export type PiiCounts = Partial<Record<PiiType, number>>;
+
+export const PII_TYPES: PiiType[] = [
+  'secret',
+  'iban',
+  'national_id',
+  'card_number',
+  'account_number',
+  'cn_mobile',
+  'email',
+];
+
+export interface PiiFinding {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+export interface PiiScanOptions {
+  /** Detectors to run. Defaults to PII_SCAN_TYPES, or every detector when unset. */
+  types?: PiiType[];
+  /** Model whose tokenizer re-counts masked chunks. */
+  tokenizerModel?: string;
+}
+
+export interface PiiScanSummary {
+  mode: PiiScanMode;
+  scannedChunks: number;
+  flaggedChunks: number;
+  maskedChunks: number;
+  /** Findings per detector. Matched values are never logged. */
+  findings: PiiCounts;
+}
+
+interface Detector {
+  type: PiiType;
+  pattern: RegExp;
+  /** Capture group holding the sensitive value when the pattern also matches a label. */
+  group?: number;
+  validate?: (value: string) => boolean;
+  /** Returns the leading part of the value to report, or undefined to drop the match. */
+  extract?: (value: string) => string | undefined;
+}
+
+const CN_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const CN_ID_CHECK_CHARS = '10X98765432';
+
+// Documentation pages are full of sample credentials; these are not worth flagging.
+const SECRET_PLACEHOLDER_PATTERN = /^(?:<.*>|\$\{?.*|\{\{.*|\*+|x+|\.+)$|your|example|changeme|placeholder|redacted/i;
+
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let idx = 0; idx < digits.length; idx += 1) {
+    let digit = Number(digits[digits.length - 1 - idx]);
+    if (idx % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  // ISO 13616: move the country code and check digits to the end, map letters to 10-35, mod 97 must be 1.
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isValidChineseNationalId(value: string): boolean {
+  const id = value.toUpperCase();
+  if (!/^\d{17}[\dX]$/.test(id)) {
+    return false;
+  }
+
+  const sum = CN_ID_WEIGHTS.reduce((total, weight, idx) => total + weight * Number(id[idx]), 0);
+  return CN_ID_CHECK_CHARS[sum % 11] === id[17];
+}
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/[ -]/g, '');
+  return digits.length >= 13 && digits.length <= 19 && !/^(\d)\1+$/.test(digits) && passesLuhn(digits);
+}
+
+// The pattern runs on into following digits ("4111 1111 1111 1111 123" or "… 1111 99"),
+// so when the whole match fails Luhn, shorter prefixes ending at a digit group are tried.
+function extractCardNumber(value: string): string | undefined {
+  return [...value.matchAll(/\d(?=[ -]|$)/g)]
+    .map((match) => value.slice(0, (match.index ?? 0) + 1))
+    .reverse()
+    .find(isCardNumber);
+}
+
+function isSecretValue(value: string): boolean {
+  return !SECRET_PLACEHOLDER_PATTERN.test(value) && /\d/.test(value) && /[A-Za-z]/.test(value);
+}
+
+const DETECTORS: Detector[] = [
+  { type: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { type: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'secret', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'secret', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { type: 'secret', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { type: 'secret', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    type: 'secret',
+    pattern:
+      /\b(?:api[_-]?key|secret(?:[_-]?key)?|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd|pwd)["']?[ \t]*[:=][ \t]*["']?([^\s"'`,;]{8,})/gi,
+    group: 1,
+    validate: isSecretValue,
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+  },
+  {
+    type: 'national_id',
+    pattern: /\b\d{6}(?:18|19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx]\b/g,
+    validate: isValidChineseNationalId,
+  },
+  // Issuer prefixes 2-6 cover Visa, Mastercard, Amex, UnionPay, JCB and Discover.
+  { type: 'card_number', pattern: /\b[2-6]\d(?:[ -]?\d){11,17}\b/g, extract: extractCardNumber },
+  {
+    type: 'account_number',
+    pattern:
+      /(?:\b(?:account|acct|a\/c)(?:[ \t]*(?:no\.?|number|num|#))?|账号|帐号|账户|帐户|卡号)[ \t]*[:：#]?[ \t]*(\d(?:[ -]?\d){7,29})\b/gi,
+    group: 1,
+  },
+  { type: 'cn_mobile', pattern: /(?:\+86[ -]?|\b86[ -]?|\b)1[3-9]\d(?:[ -]?\d{4}){2}\b/g },
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+];
+
+export function resolvePiiScanMode(value: string | undefined = process.env.PII_SCAN_MODE): PiiScanMode {
+  const normalized = (value ?? '').toLowerCase().trim();
+  if (normalized === 'off' || normalized === 'mask') {
+    return normalized;
+  }
+  return 'flag';
+}
+
+export function resolvePiiTypes(value: string | undefined = process.env.PII_SCAN_TYPES): PiiType[] {
+  const requested = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (requested.length === 0) {
+    return PII_TYPES;
+  }
+
+  const unknown = requested.filter((entry) => !PII_TYPES.includes(entry as PiiType));
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown PII_SCAN_TYPES entries: ${unknown.join(', ')}`);
+  }
+  return PII_TYPES.filter((type) => requested.includes(type));
+}
+
+export const PII_SCAN_MODE = resolvePiiScanMode();
+export const PII_SCAN_TYPES = resolvePiiTypes();
+
+/**
+ * Finds PII in text. Detectors run in PII_TYPES order and a match is dropped when it
+ * overlaps one already taken, so an 18-digit national ID is not also counted as a
+ * card number. Findings are returned in text order.
+ */
+export function scanForPii(text: string, types: PiiType[] = PII_SCAN_TYPES): PiiFinding[] {
+  const findings: PiiFinding[] = [];
+
+  PII_TYPES.filter((type) => types.includes(type)).forEach((type) => {
+    DETECTORS.filter((detector) => detector.type === type).forEach((detector) => {
+      for (const match of text.matchAll(detector.pattern)) {
+        const matched = detector.group ? match[detector.group] : match[0];
+        const value = matched && detector.extract ? detector.extract(matched) : matched;
+        if (!value || (detector.validate && !detector.validate(value))) {
+          continue;
+        }
+
+        // Labelled patterns end with the value group, so it sits at the end of the match.
+        const start = (match.index ?? 0) + (detector.group ? match[0].length - matched.length : 0);
+        const end = start + value.length;
+        if (findings.some((finding) => start < finding.end && end > finding.start)) {
+          continue;
+        }
+        findings.push({ type, start, end });
+      }
+    });
+  });
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+export function maskPii(text: string, findings: PiiFinding[]): string {
+  let masked = text;
+  [...findings]
+    .sort((a, b) => b.start - a.start)
+    .forEach((finding) => {
+      masked = `${masked.slice(0, finding.start)}[REDACTED:${finding.type}]${masked.slice(finding.end)}`;
+    });
+  return masked;
+}
+
+function countFindings(findings: PiiFinding[], counts: PiiCounts) {
+  findings.forEach((finding) => {
+    counts[finding.type] = (counts[finding.type] ?? 0) + 1;
+  });
+}
+
+export function createPiiScanSummary(mode: PiiScanMode = PII_SCAN_MODE): PiiScanSummary {
+  return { mode, scannedChunks: 0, flaggedChunks: 0, maskedChunks: 0, findings: {} };
+}
+
+export function mergePiiScanSummary(target: PiiScanSummary, source: PiiScanSummary) {
+  target.scannedChunks += source.scannedChunks;
+  target.flaggedChunks += source.flaggedChunks;
+  target.maskedChunks += source.maskedChunks;
+  (Object.entries(source.findings) as [PiiType, number][]).forEach(([type, count]) => {
+    target.findings[type] = (target.findings[type] ?? 0) + count;
+  });
+}
+
+/**
+ * Scans chunk content and sets piiFlag on chunks with findings. In mask mode the
+ * values are also replaced with `[REDACTED:<type>]` before the chunks are embedded,
+ * and overlapChars is shifted so merged neighbours still line up.
+ */
+export function applyPiiPolicy(
+  chunks: PageChunk[],
+  mode: PiiScanMode = PII_SCAN_MODE,
+  options: PiiScanOptions = {}
+): { chunks: PageChunk[]; summary: PiiScanSummary } {
+  const summary = createPiiScanSummary(mode);
+  if (mode === 'off') {
+    return { chunks, summary };
+  }
+
+  const scanned = chunks.map((chunk) => {
+    summary.scannedChunks += 1;
+    const findings = scanForPii(chunk.content, options.types);
+    if (findings.length === 0) {
+      return { ...chunk, piiFlag: false };
+    }
+
+    summary.flaggedChunks += 1;
+    countFindings(findings, summary.findings);
+    if (mode !== 'mask') {
+      return { ...chunk, piiFlag: true };
+    }
+
+    summary.maskedChunks += 1;
+    const content = maskPii(chunk.content, findings);
+    // A value straddling the overlap boundary is masked as a whole and counted as overlap.
+    const overlapFindings = findings.filter((finding) => finding.start < chunk.overlapChars);
+    const overlapEnd = Math.max(chunk.overlapChars, ...overlapFindings.map((finding) => finding.end));
+    const overlapChars = chunk.overlapChars
+      ? maskPii(chunk.content.slice(0, overlapEnd), overlapFindings).length
+      : 0;
+
+    return {
+      ...chunk,
+      content,
+      overlapChars,
+      tokenEstimate: countTokens(content, options.tokenizerModel),
+      piiFlag: true,
+    };
+  });
+
+  return { chunks: scanned, summary };
+}
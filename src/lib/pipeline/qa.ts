@@ -1,13 +1,35 @@
-import { PineconeStore, SearchResult } from '../vectorstore';
+import type { RetrievalFilter, SearchResult, VectorStore } from '../vectorstore';
+import {
+  condenseQuery,
+  createReranker,
+  expandSearchResults,
+  QUERY_REWRITE_ENABLED,
+  getLexicalIndex,
+  reciprocalRankFusion,
+  rerankResults,
+  resolveContextExpansionMode,
+  resolveRerankerName,
+  type ContextExpansionMode,
+  type HybridSearchResult,
+  type RerankedResult,
+  type RerankerName,
+  type RetrieverHit,
+  type RetrieverName,
+} from '../retrieval';
 import {
   chatCompletion,
   chatCompletionStream,
   type ChatCompletionChunk,
+  type FailoverAttempt,
+  getChatModelInfo,
   resolveProvider,
   type ProviderName,
+  type RequestUsageSummary,
+  UsageLedger,
 } from '../providers/modelProvider';
 import {
   buildProviderMessages,
+  CONTEXT_BLOCK_SEPARATOR,
   QA_USER_PROMPT_INSTRUCTIONS,
   tracePrompt,
   type PromptTraceMetadata,
@@ -17,6 +39,14 @@ const DEFAULT_TEMPERATURE = 0.4;
 const DEFAULT_SIMILARITY_THRESHOLD = Number(process.env.SIMILARITY_THRESHOLD ?? '0.75');
 const TRACE_RETRIEVAL = /^(1|true|yes)$/i.test(process.env.QA_TRACE_RETRIEVAL ?? '');
 const FALLBACK_SIMILARITY_THRESHOLD = Number(process.env.QA_FALLBACK_THRESHOLD ?? '0.6');
+const HYBRID_RETRIEVAL = !/^(0|false|no|off)$/i.test(process.env.QA_HYBRID_RETRIEVAL ?? '');
+const LEXICAL_TRUSTED_RANK = Number(process.env.QA_LEXICAL_TRUSTED_RANK ?? '2');
+const RERANKER = resolveRerankerName();
+const RERANK_CANDIDATES = Number(process.env.QA_RERANK_CANDIDATES ?? '0');
+const RERANK_OVERFETCH_FACTOR = 4;
+const CONTEXT_EXPANSION = resolveContextExpansionMode();
+// Chunks flagged by the ingestion PII scanner never reach the prompt unless this is switched off.
+const EXCLUDE_PII = !/^(0|false|no|off)$/i.test(process.env.QA_EXCLUDE_PII ?? '');
 
 interface AnswerReferences {
   index: number;
@@ -28,46 +58,94 @@ export interface AnswerResponse {
   answer: string;
   references: AnswerReferences[];
   retrievalTrace?: RetrievalTrace;
+  /** Provider that actually answered, which differs from the requested one after a failover. */
+  provider?: ProviderName;
+  model?: string;
+  usage?: RequestUsageSummary;
 }
 
 interface RetrievalTraceEntry {
   index: number;
   id: string;
   score: number;
+  originalScore: number;
+  rerankedScore?: number;
+  fusedScore: number;
+  sources: Partial<Record<RetrieverName, RetrieverHit>>;
   title: string;
   heading?: string;
   headingPath?: string;
   spaceKey?: string;
+  attachmentFilename?: string;
   included: boolean;
 }
 
 export interface RetrievalTrace {
+  query: string;
+  rewrittenQuery?: string;
+  filter?: RetrievalFilter;
+  hybrid: boolean;
+  reranker: RerankerName;
+  contextExpansion: ContextExpansionMode;
   threshold: number;
   fallbackApplied: boolean;
   fallbackThreshold?: number;
   results: RetrievalTraceEntry[];
 }
 
+function roundScore(value: number, digits = 4): number {
+  return Number(value.toFixed(digits));
+}
+
+function roundSources(sources: HybridSearchResult['sources']): HybridSearchResult['sources'] {
+  const rounded: HybridSearchResult['sources'] = {};
+  (Object.entries(sources) as [RetrieverName, RetrieverHit | undefined][]).forEach(([name, hit]) => {
+    if (hit) {
+      rounded[name] = { rank: hit.rank, score: roundScore(hit.score) };
+    }
+  });
+  return rounded;
+}
+
+// Without reranking, top lexical hits are kept even when their dense score is low:
+// exact identifier matches are exactly the queries dense retrieval tends to miss.
+// Reranked scores already account for lexical evidence, so only the score counts.
+function passesThreshold(result: RerankedResult, threshold: number): boolean {
+  if (result.rerankedScore !== undefined) {
+    return result.score >= threshold;
+  }
+
+  const lexicalRank = result.sources.lexical?.rank;
+  return result.score >= threshold || (lexicalRank !== undefined && lexicalRank <= LEXICAL_TRUSTED_RANK);
+}
+
 function buildContext(results: SearchResult[]): { context: string; references: AnswerReferences[] } {
   const references: AnswerReferences[] = [];
   const seen = new Map<string, number>();
   const sections = results.map((result) => {
-    const pageId = result.chunk.pageId ?? result.chunk.id;
-    let referenceIndex = seen.get(pageId);
+    const { attachmentId, attachmentFilename } = result.chunk;
+    // Attachment chunks share the parent page ID but are cited as separate files.
+    const referenceKey = attachmentId ? `attachment:${attachmentId}` : result.chunk.pageId ?? result.chunk.id;
+    const title = attachmentFilename ? `${result.chunk.title} — ${attachmentFilename}` : result.chunk.title;
+    const url = result.chunk.attachmentUrl ?? result.chunk.sourceUrl;
+    let referenceIndex = seen.get(referenceKey);
 
     if (!referenceIndex) {
       referenceIndex = references.length + 1;
-      seen.set(pageId, referenceIndex);
+      seen.set(referenceKey, referenceIndex);
       references.push({
         index: referenceIndex,
-        title: result.chunk.title,
-        url: result.chunk.sourceUrl,
+        title,
+        url,
       });
     }
 
+    const { partIndex, partCount } = result.chunk;
+    const partLabel = partIndex && partCount ? ` (part ${partIndex} of ${partCount})` : '';
+
     return [
-      `Reference [${referenceIndex}] — ${result.chunk.title}`,
-      result.chunk.sourceUrl ? `Source: ${result.chunk.sourceUrl}` : undefined,
+      `Reference [${referenceIndex}] — ${title}${partLabel}`,
+      url ? `Source: ${url}` : undefined,
       result.chunk.content,
     ]
       .filter(Boolean)
@@ -75,7 +153,7 @@ function buildContext(results: SearchResult[]): { context: string; references: A
   });
 
   return {
-    context: sections.join('\n\n---\n\n'),
+    context: sections.join(CONTEXT_BLOCK_SEPARATOR),
     references,
   };
 }
@@ -84,7 +162,7 @@ const FALLBACK_INSTRUCTIONS = `${QA_USER_PROMPT_INSTRUCTIONS}\n- Retrieval conte
 
 export class QAEngine {
   constructor(
-    private readonly store: PineconeStore,
+    private readonly store: VectorStore,
     private readonly topK = 5,
     private readonly defaultProvider: ProviderName = resolveProvider(),
     private readonly similarityThreshold: number = Number.isFinite(DEFAULT_SIMILARITY_THRESHOLD)
@@ -96,55 +174,143 @@ export class QAEngine {
     question: string,
     chatHistory?: string,
     providerOverride?: ProviderName | string,
-    trace?: PromptTraceMetadata
+    trace?: PromptTraceMetadata,
+    filter?: RetrievalFilter
   ): Promise<AnswerResponse> {
-    const { messages, references, retrievalTrace } = await this.prepare(question, chatHistory, trace);
     const provider = resolveProvider(providerOverride ?? this.defaultProvider);
+    const usage = new UsageLedger();
+    const { messages, references, retrievalTrace } = await this.prepare(question, chatHistory, provider, trace, filter, usage);
 
-    const { text } = await chatCompletion({
+    const completion = await chatCompletion({
       messages,
       temperature: DEFAULT_TEMPERATURE,
       provider,
+      usage,
+      purpose: 'answer',
     });
 
-    const answer = text || 'I do not have enough information to answer that.';
+    const answer = completion.text || 'I do not have enough information to answer that.';
 
-    return { answer, references, retrievalTrace };
+    return {
+      answer,
+      references,
+      retrievalTrace,
+      provider: completion.provider,
+      model: completion.model,
+      usage: usage.summarize(),
+    };
   }
 
   async createStreamingCompletion(
     question: string,
     chatHistory?: string,
     providerOverride?: ProviderName | string,
-    trace?: PromptTraceMetadata
+    trace?: PromptTraceMetadata,
+    filter?: RetrievalFilter,
+    signal?: AbortSignal
   ) {
-    const { messages, references, retrievalTrace } = await this.prepare(question, chatHistory, trace);
     const provider = resolveProvider(providerOverride ?? this.defaultProvider);
+    const usage = new UsageLedger();
+    const { messages, references, retrievalTrace } = await this.prepare(question, chatHistory, provider, trace, filter, usage);
 
-    const { stream } = await chatCompletionStream({
+    // `signal` cancels the answer stream at the provider, e.g. when the user stops generating.
+    const completion = await chatCompletionStream({
       messages,
       temperature: DEFAULT_TEMPERATURE,
       provider,
+      usage,
+      purpose: 'answer',
+      signal,
     });
 
     return {
       references,
-      stream,
+      stream: completion.stream,
       retrievalTrace,
+      provider: completion.provider,
+      model: completion.model,
+      attempts: completion.attempts,
+      usage,
     } as {
       references: AnswerReferences[];
       stream: AsyncIterable<ChatCompletionChunk>;
       retrievalTrace: RetrievalTrace;
+      /** Provider that actually answered, which differs from the requested one after a failover. */
+      provider: ProviderName;
+      model: string;
+      attempts: FailoverAttempt[];
+      /** Rewrite, rerank and answer usage; the answer is added once the stream has been consumed. */
+      usage: UsageLedger;
+    };
+  }
+
+  private async retrieve(
+    query: string,
+    limit: number,
+    filter?: RetrievalFilter
+  ): Promise<{ results: HybridSearchResult[]; hybrid: boolean }> {
+    const lexicalIndex = HYBRID_RETRIEVAL ? await getLexicalIndex(this.store.getNamespace()) : null;
+
+    if (!lexicalIndex || lexicalIndex.size === 0) {
+      const vectorResults = await this.store.search(query, limit, filter);
+      return { results: reciprocalRankFusion({ vector: vectorResults }), hybrid: false };
+    }
+
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.store.search(query, limit, filter),
+      lexicalIndex.search(query, limit, filter),
+    ]);
+
+    return {
+      results: reciprocalRankFusion({ vector: vectorResults, lexical: lexicalResults }).slice(0, limit),
+      hybrid: true,
     };
   }
 
-  private async prepare(question: string, chatHistory?: string, trace?: PromptTraceMetadata) {
+  private async retrieveAndRerank(
+    query: string,
+    provider: ProviderName,
+    filter?: RetrievalFilter,
+    usage?: UsageLedger
+  ): Promise<{ results: RerankedResult[]; hybrid: boolean }> {
+    const reranker = createReranker(RERANKER, { provider, usage });
+
+    if (!reranker) {
+      const { results, hybrid } = await this.retrieve(query, this.topK, filter);
+      return { results: results.map((result) => ({ ...result, originalScore: result.score })), hybrid };
+    }
+
+    const candidateCount = Number.isFinite(RERANK_CANDIDATES) && RERANK_CANDIDATES > this.topK
+      ? RERANK_CANDIDATES
+      : this.topK * RERANK_OVERFETCH_FACTOR;
+    const { results, hybrid } = await this.retrieve(query, candidateCount, filter);
+
+    return {
+      results: await rerankResults(reranker, query, results, this.topK),
+      hybrid,
+    };
+  }
+
+  private async prepare(
+    question: string,
+    chatHistory: string | undefined,
+    provider: ProviderName,
+    trace?: PromptTraceMetadata,
+    filter?: RetrievalFilter,
+    usage?: UsageLedger
+  ) {
     if (!question.trim()) {
       throw new Error('Question must not be empty');
     }
 
-    const rawResults = await this.store.search(question, this.topK);
-    let relevantResults = rawResults.filter((result) => result.score >= this.similarityThreshold);
+    const searchQuery = QUERY_REWRITE_ENABLED
+      ? await condenseQuery({ question, chatHistory, provider, usage })
+      : question.trim();
+    const rewrittenQuery = searchQuery !== question.trim() ? searchQuery : undefined;
+
+    const retrievalFilter: RetrievalFilter | undefined = EXCLUDE_PII ? { ...filter, excludePii: true } : filter;
+    const { results: rawResults, hybrid } = await this.retrieveAndRerank(searchQuery, provider, retrievalFilter, usage);
+    let relevantResults = rawResults.filter((result) => passesThreshold(result, this.similarityThreshold));
 
     const fallbackThresholdValid = Number.isFinite(FALLBACK_SIMILARITY_THRESHOLD)
       && FALLBACK_SIMILARITY_THRESHOLD > 0
@@ -164,17 +330,28 @@ export class QAEngine {
 
     const includedIds = new Set(relevantResults.map((result) => result.chunk.id));
     const retrievalTrace: RetrievalTrace = {
+      query: question.trim(),
+      rewrittenQuery,
+      filter: retrievalFilter,
+      hybrid,
+      reranker: RERANKER,
+      contextExpansion: CONTEXT_EXPANSION,
       threshold: this.similarityThreshold,
       fallbackApplied,
       fallbackThreshold: fallbackApplied && fallbackThresholdValid ? FALLBACK_SIMILARITY_THRESHOLD : undefined,
       results: rawResults.map((result, idx) => ({
         index: idx + 1,
         id: result.chunk.id,
-        score: Number(result.score.toFixed(4)),
+        score: roundScore(result.score),
+        originalScore: roundScore(result.originalScore),
+        rerankedScore: result.rerankedScore !== undefined ? roundScore(result.rerankedScore) : undefined,
+        fusedScore: roundScore(result.fusedScore, 6),
+        sources: roundSources(result.sources),
         title: result.chunk.title,
         heading: result.chunk.heading,
         headingPath: result.chunk.headingPath,
         spaceKey: result.chunk.spaceKey,
+        attachmentFilename: result.chunk.attachmentFilename,
         included: includedIds.has(result.chunk.id),
       })),
     };
@@ -211,18 +388,22 @@ export class QAEngine {
       };
     }
 
-    const { context, references } = buildContext(relevantResults);
+    const contextResults = await expandSearchResults(this.store, relevantResults, CONTEXT_EXPANSION, {
+      excludePii: EXCLUDE_PII,
+    });
+    const { context, references } = buildContext(contextResults);
     const instructions = fallbackApplied
       ? `${QA_USER_PROMPT_INSTRUCTIONS}\n- Retrieved context scored below the usual similarity threshold; treat it as suggestive, not definitive.`
       : QA_USER_PROMPT_INSTRUCTIONS;
 
-    const { messages } = buildProviderMessages({
+    const { messages, userPrompt } = buildProviderMessages({
       question,
       chatHistory,
       instructions,
       contextSections: [
         { title: 'Retrieval Context', content: context },
       ],
+      model: getChatModelInfo(provider).model,
     });
 
     tracePrompt(
@@ -235,7 +416,8 @@ export class QAEngine {
 
     return {
       messages,
-      references,
+      // Blocks trimmed by the prompt token budget must not be listed as sources.
+      references: references.filter((reference) => userPrompt.includes(`Reference [${reference.index}] — `)),
       retrievalTrace,
     };
   }
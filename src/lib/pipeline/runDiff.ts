@@ -0,0 +1,169 @@
+import type { PageSnapshot, VectorizationLog } from './vectorLog';
+
+export interface PageDiffEntry {
+  pageId: string;
+  pageTitle: string;
+  spaceKey?: string;
+  chunksBefore?: number;
+  chunksAfter?: number;
+  embedVersionBefore?: string;
+  embedVersionAfter?: string;
+}
+
+export interface SpaceDiffSummary {
+  spaceKey?: string;
+  pagesBefore: number;
+  pagesAfter: number;
+  chunksBefore: number;
+  chunksAfter: number;
+  addedPages: number;
+  removedPages: number;
+  reembeddedPages: number;
+}
+
+export interface RunDiff {
+  from: { generatedAt: string; embedVersion: string };
+  to: { generatedAt: string; embedVersion: string };
+  addedPages: PageDiffEntry[];
+  removedPages: PageDiffEntry[];
+  /** Pages present in both runs that were embedded again in between. */
+  reembeddedPages: PageDiffEntry[];
+  /** Pages present in both runs whose chunk count differs. */
+  chunkCountChanges: PageDiffEntry[];
+  /** Pages present in both runs whose embedding model version differs. */
+  embedVersionChanges: PageDiffEntry[];
+  spaces: SpaceDiffSummary[];
+  totals: Omit<SpaceDiffSummary, 'spaceKey'>;
+}
+
+function requireSnapshot(log: VectorizationLog, label: string): PageSnapshot[] {
+  if (!log.knowledgeBase) {
+    throw new Error(
+      `The ${label} run log (${log.generatedAt}) has no knowledge base snapshot. Only runs written with run history enabled can be compared.`
+    );
+  }
+  return log.knowledgeBase;
+}
+
+function wasReembedded(before: PageSnapshot, after: PageSnapshot): boolean {
+  if (before.lastEmbeddedAt || after.lastEmbeddedAt) {
+    return before.lastEmbeddedAt !== after.lastEmbeddedAt;
+  }
+  return before.etag !== after.etag || before.embedVersion !== after.embedVersion;
+}
+
+function toEntry(before: PageSnapshot | undefined, after: PageSnapshot | undefined): PageDiffEntry {
+  const page = (after ?? before) as PageSnapshot;
+  return {
+    pageId: page.pageId,
+    pageTitle: page.pageTitle,
+    spaceKey: page.spaceKey,
+    chunksBefore: before?.chunkCount,
+    chunksAfter: after?.chunkCount,
+    embedVersionBefore: before?.embedVersion,
+    embedVersionAfter: after?.embedVersion,
+  };
+}
+
+function byTitle(a: PageDiffEntry, b: PageDiffEntry): number {
+  return (a.spaceKey ?? '').localeCompare(b.spaceKey ?? '') || a.pageTitle.localeCompare(b.pageTitle);
+}
+
+/**
+ * Compares the knowledge base snapshots of two run logs. Pages are matched by ID,
+ * so a renamed page counts as re-embedded rather than removed and added.
+ */
+export function diffVectorizationRuns(from: VectorizationLog, to: VectorizationLog): RunDiff {
+  const before = new Map(requireSnapshot(from, 'older').map((page) => [page.pageId, page]));
+  const after = new Map(requireSnapshot(to, 'newer').map((page) => [page.pageId, page]));
+
+  const diff: RunDiff = {
+    from: { generatedAt: from.generatedAt, embedVersion: from.embedVersion },
+    to: { generatedAt: to.generatedAt, embedVersion: to.embedVersion },
+    addedPages: [],
+    removedPages: [],
+    reembeddedPages: [],
+    chunkCountChanges: [],
+    embedVersionChanges: [],
+    spaces: [],
+    totals: {
+      pagesBefore: before.size,
+      pagesAfter: after.size,
+      chunksBefore: 0,
+      chunksAfter: 0,
+      addedPages: 0,
+      removedPages: 0,
+      reembeddedPages: 0,
+    },
+  };
+
+  const spaces = new Map<string, SpaceDiffSummary>();
+  const spaceFor = (spaceKey?: string): SpaceDiffSummary => {
+    const key = spaceKey ?? '';
+    let summary = spaces.get(key);
+    if (!summary) {
+      summary = {
+        spaceKey,
+        pagesBefore: 0,
+        pagesAfter: 0,
+        chunksBefore: 0,
+        chunksAfter: 0,
+        addedPages: 0,
+        removedPages: 0,
+        reembeddedPages: 0,
+      };
+      spaces.set(key, summary);
+    }
+    return summary;
+  };
+
+  before.forEach((page) => {
+    const space = spaceFor(page.spaceKey);
+    space.pagesBefore += 1;
+    space.chunksBefore += page.chunkCount;
+    diff.totals.chunksBefore += page.chunkCount;
+
+    if (!after.has(page.pageId)) {
+      diff.removedPages.push(toEntry(page, undefined));
+      space.removedPages += 1;
+    }
+  });
+
+  after.forEach((page) => {
+    const space = spaceFor(page.spaceKey);
+    space.pagesAfter += 1;
+    space.chunksAfter += page.chunkCount;
+    diff.totals.chunksAfter += page.chunkCount;
+
+    const previous = before.get(page.pageId);
+    if (!previous) {
+      diff.addedPages.push(toEntry(undefined, page));
+      space.addedPages += 1;
+      return;
+    }
+
+    const entry = toEntry(previous, page);
+    if (wasReembedded(previous, page)) {
+      diff.reembeddedPages.push(entry);
+      space.reembeddedPages += 1;
+    }
+    if (previous.chunkCount !== page.chunkCount) {
+      diff.chunkCountChanges.push(entry);
+    }
+    if (previous.embedVersion !== page.embedVersion) {
+      diff.embedVersionChanges.push(entry);
+    }
+  });
+
+  diff.addedPages.sort(byTitle);
+  diff.removedPages.sort(byTitle);
+  diff.reembeddedPages.sort(byTitle);
+  diff.chunkCountChanges.sort(byTitle);
+  diff.embedVersionChanges.sort(byTitle);
+  diff.spaces = [...spaces.values()].sort((a, b) => (a.spaceKey ?? '').localeCompare(b.spaceKey ?? ''));
+  diff.totals.addedPages = diff.addedPages.length;
+  diff.totals.removedPages = diff.removedPages.length;
+  diff.totals.reembeddedPages = diff.reembeddedPages.length;
+
+  return diff;
+}
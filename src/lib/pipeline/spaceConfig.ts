@@ -0,0 +1,126 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+const CONFIG_FILENAME = 'confluence-spaces.json';
+const CONFIG_CANDIDATES = [
+  path.join(process.cwd(), CONFIG_FILENAME),
+  path.join(process.cwd(), 'data', CONFIG_FILENAME),
+];
+
+const positiveInt = z.number().int().positive();
+
+const spaceSettingsSchema = z.object({
+  pageLimit: positiveInt.optional(),
+  maxBatches: positiveInt.optional(),
+  chunkMinTokens: positiveInt.optional(),
+  chunkMaxTokens: positiveInt.optional(),
+  chunkOverlapTokens: z.number().int().nonnegative().optional(),
+});
+
+const spaceEntrySchema = spaceSettingsSchema.extend({
+  key: z.string().trim().min(1),
+  name: z.string().optional(),
+  owner: z.string().optional(),
+  includeTitlePatterns: z.array(z.string()).optional(),
+  excludeTitlePatterns: z.array(z.string()).optional(),
+});
+
+const spaceConfigFileSchema = z.object({
+  defaults: spaceSettingsSchema.optional(),
+  spaces: z.array(spaceEntrySchema).min(1),
+});
+
+export type SpaceConfigFile = z.infer<typeof spaceConfigFileSchema>;
+
+export interface SpaceIngestionConfig {
+  key: string;
+  name?: string;
+  owner?: string;
+  pageLimit?: number;
+  maxBatches?: number;
+  chunkMinTokens?: number;
+  chunkMaxTokens?: number;
+  chunkOverlapTokens?: number;
+  includeTitlePatterns: RegExp[];
+  excludeTitlePatterns: RegExp[];
+}
+
+function compilePatterns(spaceKey: string, patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).map((pattern) => {
+    try {
+      return new RegExp(pattern, 'i');
+    } catch (error) {
+      throw new Error(
+        `Invalid title pattern "${pattern}" for space ${spaceKey}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+}
+
+export function resolveSpaceConfigs(file: SpaceConfigFile): SpaceIngestionConfig[] {
+  const defaults = file.defaults ?? {};
+  const seen = new Set<string>();
+
+  return file.spaces.map((space) => {
+    if (seen.has(space.key)) {
+      throw new Error(`Space ${space.key} is listed more than once in ${CONFIG_FILENAME}.`);
+    }
+    seen.add(space.key);
+
+    return {
+      key: space.key,
+      name: space.name,
+      owner: space.owner,
+      pageLimit: space.pageLimit ?? defaults.pageLimit,
+      maxBatches: space.maxBatches ?? defaults.maxBatches,
+      chunkMinTokens: space.chunkMinTokens ?? defaults.chunkMinTokens,
+      chunkMaxTokens: space.chunkMaxTokens ?? defaults.chunkMaxTokens,
+      chunkOverlapTokens: space.chunkOverlapTokens ?? defaults.chunkOverlapTokens,
+      includeTitlePatterns: compilePatterns(space.key, space.includeTitlePatterns),
+      excludeTitlePatterns: compilePatterns(space.key, space.excludeTitlePatterns),
+    };
+  });
+}
+
+/**
+ * Loads the per-space ingestion config from CONFLUENCE_SPACES_CONFIG, or from
+ * confluence-spaces.json in the project root or data/. Returns null when no file
+ * exists so callers can fall back to the single-space environment variables.
+ */
+export async function loadSpaceConfigs(
+  configPath: string | undefined = process.env.CONFLUENCE_SPACES_CONFIG
+): Promise<{ path: string; spaces: SpaceIngestionConfig[] } | null> {
+  const candidates = configPath ? [path.resolve(configPath)] : CONFIG_CANDIDATES;
+
+  for (const candidate of candidates) {
+    let raw: string;
+    try {
+      raw = await fs.readFile(candidate, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !configPath) {
+        continue;
+      }
+      throw error;
+    }
+
+    const parsed = spaceConfigFileSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid space config at ${candidate}: ${issues}`);
+    }
+
+    return { path: candidate, spaces: resolveSpaceConfigs(parsed.data) };
+  }
+
+  return null;
+}
+
+export function isTitleIncluded(title: string, config: Pick<SpaceIngestionConfig, 'includeTitlePatterns' | 'excludeTitlePatterns'>): boolean {
+  if (config.includeTitlePatterns.length > 0 && !config.includeTitlePatterns.some((pattern) => pattern.test(title))) {
+    return false;
+  }
+  return !config.excludeTitlePatterns.some((pattern) => pattern.test(title));
+}
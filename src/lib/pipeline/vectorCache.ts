@@ -1,13 +1,28 @@
+import { createHash } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import type { CleanConfluencePage } from '../confluence';
 import type { PageChunk } from '../confluence/chunk';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+import { namespaceDataPath } from '../vectorstore/namespaces';
 
 const CURRENT_CACHE_VERSION = 1;
+// Bump when stored vector metadata gains a field (1: updated_at_ts), so the next full
+// run rewrites the metadata of unchanged pages from their cached vectors.
+const CURRENT_METADATA_VERSION = 1;
 const CACHE_FILENAME = 'vector-cache.json';
 const CACHE_DIR = path.join(process.cwd(), 'data');
 const CACHE_PATH = path.join(CACHE_DIR, CACHE_FILENAME);
 
+export interface AttachmentCacheEntry {
+  attachmentId: string;
+  filename: string;
+  version?: number;
+  chunkCount: number;
+  /** Extraction error from the last embed; the attachment is retried when its version changes. */
+  error?: string;
+}
+
 export interface PageCacheEntry {
   pageId: string;
   pageTitle: string;
@@ -17,12 +32,24 @@ export interface PageCacheEntry {
   embedVersion: string;
   chunkCount: number;
   chunkIds: string[];
+  /** SHA-256 of each chunk's embedded text, keyed by chunk ID. */
+  chunkHashes?: Record<string, string>;
+  /** Hash of the chunking settings the page was last split with. */
+  chunkConfigHash?: string;
+  /** Layout of the metadata stored with the page's vectors; missing before updated_at_ts. */
+  metadataVersion?: number;
   lastEmbeddedAt?: string;
+  attachments?: AttachmentCacheEntry[];
 }
 
 export interface VectorCacheFile {
   version: number;
   pages: Record<string, PageCacheEntry>;
+  /**
+   * Latest Confluence modification time seen by incremental runs, keyed by space
+   * key ('*' when no space is configured). Stored as an ISO timestamp.
+   */
+  highWaterMarks?: Record<string, string>;
 }
 
 const EMPTY_CACHE: VectorCacheFile = {
@@ -42,12 +69,18 @@ function upgradeCache(cache: VectorCacheFile): VectorCacheFile {
   return {
     version: CURRENT_CACHE_VERSION,
     pages: cache.pages ?? {},
+    highWaterMarks: cache.highWaterMarks,
   };
 }
 
-export async function loadVectorCache(): Promise<VectorCacheFile> {
+// Each namespace tracks its own pages; without one the configured namespace's cache is used.
+function resolveCachePath(namespace?: string): string {
+  return namespace ? namespaceDataPath(namespace, CACHE_FILENAME) : CACHE_PATH;
+}
+
+export async function loadVectorCache(namespace?: string): Promise<VectorCacheFile> {
   try {
-    const raw = await fs.readFile(CACHE_PATH, 'utf8');
+    const raw = await fs.readFile(resolveCachePath(namespace), 'utf8');
     const parsed = JSON.parse(raw) as VectorCacheFile;
     return upgradeCache(parsed);
   } catch (error) {
@@ -60,9 +93,8 @@ export async function loadVectorCache(): Promise<VectorCacheFile> {
   }
 }
 
-export async function saveVectorCache(cache: VectorCacheFile): Promise<void> {
-  await fs.mkdir(CACHE_DIR, { recursive: true });
-  await fs.writeFile(CACHE_PATH, `${JSON.stringify(cache, null, 2)}\n`, 'utf8');
+export async function saveVectorCache(cache: VectorCacheFile, namespace?: string): Promise<void> {
+  await writeFileAtomic(resolveCachePath(namespace), `${JSON.stringify(cache, null, 2)}\n`);
 }
 
 export interface PageChangeResult {
@@ -70,11 +102,79 @@ export interface PageChangeResult {
   reasons: string[];
 }
 
+export interface PageChangeOptions {
+  /** Current attachments; compared only when attachment ingestion is on. */
+  attachments?: Pick<AttachmentCacheEntry, 'attachmentId' | 'filename' | 'version'>[];
+  chunkConfigHash?: string;
+}
+
+export interface ChunkDiff {
+  /** Chunks that are new or whose text changed, and need embedding. */
+  changed: PageChunk[];
+  /** Chunks whose text and embedding model are unchanged; only their metadata needs rewriting. */
+  unchanged: PageChunk[];
+  /**
+   * Chunks whose text was embedded before under another ID, typically because a
+   * paragraph was inserted or removed above them; their vector is copied across.
+   */
+  moved: { chunk: PageChunk; previousId: string }[];
+  /** Previously embedded chunk IDs the page no longer produces. */
+  removedIds: string[];
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function hashChunkContent(content: string): string {
+  return sha256(content);
+}
+
+/** Hashes the settings that shape chunk boundaries and text. Key order does not matter. */
+export function hashChunkConfig(config: Record<string, unknown>): string {
+  const normalized = Object.keys(config)
+    .sort()
+    .map((key) => [key, config[key] ?? null]);
+  return sha256(JSON.stringify(normalized));
+}
+
+function describeAttachmentChanges(
+  cached: AttachmentCacheEntry[],
+  current: Pick<AttachmentCacheEntry, 'attachmentId' | 'filename' | 'version'>[]
+): string[] {
+  const reasons: string[] = [];
+  const cachedById = new Map(cached.map((entry) => [entry.attachmentId, entry]));
+  const currentIds = new Set(current.map((entry) => entry.attachmentId));
+
+  current.forEach((entry) => {
+    const previous = cachedById.get(entry.attachmentId);
+    if (!previous) {
+      reasons.push(`attachment added (${entry.filename})`);
+    } else if (previous.version !== entry.version) {
+      reasons.push(`attachment ${entry.filename} changed (${previous.version ?? 'none'} → ${entry.version ?? 'none'})`);
+    }
+  });
+
+  cached
+    .filter((entry) => !currentIds.has(entry.attachmentId))
+    .forEach((entry) => reasons.push(`attachment removed (${entry.filename})`));
+
+  return reasons;
+}
+
+/**
+ * Decides whether a page needs re-chunking. Attachments are compared only when the
+ * caller lists them. Entries written before chunk config hashes existed are not
+ * treated as changed, so upgrading does not re-embed every page.
+ */
 export function evaluatePageChange(
   page: CleanConfluencePage,
   embedVersion: string,
-  cached?: PageCacheEntry
+  cached?: PageCacheEntry,
+  options: PageChangeOptions = {}
 ): PageChangeResult {
+  const { attachments, chunkConfigHash } = options;
+
   if (!cached) {
     return {
       changed: true,
@@ -96,17 +196,69 @@ export function evaluatePageChange(
     reasons.push(`embedding version changed (${cached.embedVersion} → ${embedVersion})`);
   }
 
+  if (chunkConfigHash && cached.chunkConfigHash && cached.chunkConfigHash !== chunkConfigHash) {
+    reasons.push('chunking config changed');
+  }
+
+  if ((cached.metadataVersion ?? 0) < CURRENT_METADATA_VERSION) {
+    reasons.push(`vector metadata outdated (v${cached.metadataVersion ?? 0} → v${CURRENT_METADATA_VERSION})`);
+  }
+
+  if (attachments) {
+    reasons.push(...describeAttachmentChanges(cached.attachments ?? [], attachments));
+  }
+
   return {
     changed: reasons.length > 0,
     reasons,
   };
 }
 
+/**
+ * Compares a page's new chunks with the cached hashes. Chunk IDs are positional, so
+ * a chunk whose text is found under a different previous ID counts as moved rather
+ * than changed. Everything counts as changed when the embedding model changed or
+ * the entry predates chunk hashes.
+ */
+export function diffPageChunks(chunks: PageChunk[], embedVersion: string, cached?: PageCacheEntry): ChunkDiff {
+  const previousHashes = cached?.embedVersion === embedVersion ? cached.chunkHashes ?? {} : {};
+  const previousIdsByHash = new Map<string, string>();
+  Object.entries(previousHashes).forEach(([id, hash]) => {
+    if (!previousIdsByHash.has(hash)) {
+      previousIdsByHash.set(hash, id);
+    }
+  });
+
+  const currentIds = new Set(chunks.map((chunk) => chunk.id));
+  const diff: ChunkDiff = {
+    changed: [],
+    unchanged: [],
+    moved: [],
+    removedIds: (cached?.chunkIds ?? []).filter((id) => !currentIds.has(id)),
+  };
+
+  chunks.forEach((chunk) => {
+    const hash = hashChunkContent(chunk.content);
+    const previousId = previousIdsByHash.get(hash);
+    if (previousHashes[chunk.id] === hash) {
+      diff.unchanged.push(chunk);
+    } else if (previousId) {
+      diff.moved.push({ chunk, previousId });
+    } else {
+      diff.changed.push(chunk);
+    }
+  });
+
+  return diff;
+}
+
 export function buildCacheEntry(
   page: CleanConfluencePage,
   embedVersion: string,
   chunks: PageChunk[],
-  embeddedAt: string
+  embeddedAt: string,
+  attachments?: AttachmentCacheEntry[],
+  chunkConfigHash?: string
 ): PageCacheEntry {
   return {
     pageId: page.pageId,
@@ -117,13 +269,17 @@ export function buildCacheEntry(
     embedVersion,
     chunkCount: chunks.length,
     chunkIds: chunks.map((chunk) => chunk.nodeId),
+    chunkHashes: Object.fromEntries(chunks.map((chunk) => [chunk.nodeId, hashChunkContent(chunk.content)])),
+    chunkConfigHash,
+    metadataVersion: CURRENT_METADATA_VERSION,
     lastEmbeddedAt: embeddedAt,
+    attachments,
   };
 }
 
-export async function clearVectorCache(): Promise<void> {
+export async function clearVectorCache(namespace?: string): Promise<void> {
   try {
-    await fs.unlink(CACHE_PATH);
+    await fs.unlink(resolveCachePath(namespace));
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       return;
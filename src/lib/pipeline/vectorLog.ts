@@ -1,8 +1,13 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
+import type { EmbeddingUsageSummary } from '../providers/usage';
+import type { PiiScanSummary } from './pii';
 
 const LOG_DIR = path.join(process.cwd(), 'logs');
 const LOG_PATH = path.join(LOG_DIR, 'vectorize-last-run.json');
+const HISTORY_DIR = path.join(LOG_DIR, 'vectorize-history');
+const HISTORY_FILE_PATTERN = /^vectorize-\d{8}T\d{6}(?:\d{3})?Z\.json$/;
+const HISTORY_LIMIT = Number(process.env.VECTORIZE_LOG_HISTORY ?? '52');
 
 export interface EmbeddedPageLog {
   pageId: string;
@@ -11,16 +16,35 @@ export interface EmbeddedPageLog {
   etag?: string;
   updatedAt?: string;
   chunkCount: number;
+  /** Chunks sent to the embedding model: new or changed text, or vectors missing from the store. */
+  embeddedChunks: number;
+  /** Unchanged chunks whose stored vectors were kept and only their metadata rewritten. */
+  reusedChunks: number;
+  /** Chunk IDs from the previous embed that the page no longer produces. */
+  removedChunks: number;
+  /** Attachments embedded alongside the page body, when attachment ingestion is on. */
+  attachments?: { attachmentId: string; filename: string; chunkCount: number; error?: string }[];
 }
 
 export interface SkippedPageLog {
   pageId: string;
   pageTitle: string;
+  spaceKey?: string;
   reasons: string[];
   etag?: string;
   updatedAt?: string;
 }
 
+export interface DeletedPageLog {
+  pageId: string;
+  pageTitle: string;
+  spaceKey?: string;
+  reason: string;
+  chunkCount: number;
+  /** True when the run only reported the deletion without removing anything. */
+  dryRun: boolean;
+}
+
 export interface ChunkLogEntry {
   chunkId: string;
   nodeId: string;
@@ -34,18 +58,121 @@ export interface ChunkLogEntry {
   embedVersion: string;
   tokenEstimate: number;
   piiFlag: boolean;
+  attachmentFilename?: string;
+  /** SHA-256 of the embedded text, as stored in the vector cache. */
+  contentHash: string;
+  reusedEmbedding: boolean;
+}
+
+export interface SpaceRunSummary {
+  spaceKey?: string;
+  totalPages: number;
+  embeddedPages: number;
+  skippedPages: number;
+  excludedPages: number;
+  deletedPages: number;
+  embeddedChunks: number;
+  reusedChunks: number;
+  piiFlaggedChunks: number;
+  /** Modification-time mark the next incremental run starts from. */
+  highWaterMark?: string;
+}
+
+/** One page of the knowledge base as recorded in the vector cache after a run. */
+export interface PageSnapshot {
+  pageId: string;
+  pageTitle: string;
+  spaceKey?: string;
+  etag?: string;
+  updatedAt?: string;
+  embedVersion: string;
+  chunkCount: number;
+  lastEmbeddedAt?: string;
 }
 
 export interface VectorizationLog {
   generatedAt: string;
   embedVersion: string;
+  /** Vector store namespace the run wrote to. */
+  namespace?: string;
+  /**
+   * Start time of the interrupted run this one resumed. Summaries, page, chunk and
+   * PII entries cover the whole run, restored from the checkpoint.
+   */
+  resumedFrom?: string;
+  spaces: SpaceRunSummary[];
   embeddedPages: EmbeddedPageLog[];
   skippedPages: SkippedPageLog[];
+  deletedPages: DeletedPageLog[];
+  /** PII findings in the chunks embedded by this run. */
+  pii: PiiScanSummary;
   chunks: ChunkLogEntry[];
+  /** Every page in the knowledge base after the run. Missing from logs written before run history was kept. */
+  knowledgeBase?: PageSnapshot[];
+  /**
+   * Embedding tokens sent to providers and their cost, including attempts before a
+   * resume. Embedding cache hits and reused chunks are free and not counted.
+   */
+  embeddingUsage?: EmbeddingUsageSummary;
+}
+
+export interface VectorizationHistoryEntry {
+  path: string;
+  fileName: string;
+}
+
+function historyFileName(generatedAt: string): string {
+  const stamp = new Date(generatedAt).toISOString().replace(/[-:]/g, '').replace('.', '');
+  return `vectorize-${stamp}.json`;
+}
+
+/** Run logs kept under logs/vectorize-history, oldest first. */
+export async function listVectorizationHistory(): Promise<VectorizationHistoryEntry[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(HISTORY_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  // Timestamps are fixed-width UTC, so name order is run order.
+  return fileNames
+    .filter((fileName) => HISTORY_FILE_PATTERN.test(fileName))
+    .sort()
+    .map((fileName) => ({ path: path.join(HISTORY_DIR, fileName), fileName }));
+}
+
+export async function readVectorizationLog(filePath: string): Promise<VectorizationLog> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8')) as VectorizationLog;
 }
 
-export async function writeVectorizationLog(log: VectorizationLog): Promise<void> {
-  await fs.mkdir(LOG_DIR, { recursive: true });
-  await fs.writeFile(LOG_PATH, `${JSON.stringify(log, null, 2)}\n`, 'utf8');
+async function rotateVectorizationHistory() {
+  if (HISTORY_LIMIT <= 0) {
+    return;
+  }
+
+  const history = await listVectorizationHistory();
+  await Promise.all(
+    history.slice(0, Math.max(0, history.length - HISTORY_LIMIT)).map((entry) => fs.rm(entry.path, { force: true }))
+  );
+}
+
+/**
+ * Writes the run log to logs/vectorize-last-run.json and a timestamped copy under
+ * logs/vectorize-history, keeping the newest VECTORIZE_LOG_HISTORY copies (default
+ * 52; 0 keeps all). Returns the path of the history copy.
+ */
+export async function writeVectorizationLog(log: VectorizationLog): Promise<string> {
+  const contents = `${JSON.stringify(log, null, 2)}\n`;
+  const historyPath = path.join(HISTORY_DIR, historyFileName(log.generatedAt));
+
+  await fs.mkdir(HISTORY_DIR, { recursive: true });
+  await fs.writeFile(LOG_PATH, contents, 'utf8');
+  await fs.writeFile(historyPath, contents, 'utf8');
+  await rotateVectorizationHistory();
+  return historyPath;
 }
 
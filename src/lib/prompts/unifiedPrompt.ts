@@ -1,4 +1,5 @@
 import type { ProviderChatMessage } from '../providers/modelProvider';
+import { countTokens, getContextWindow, truncateToTokens } from '../providers/tokenizer';
 import { UNIFIED_SYSTEM_PROMPT } from './systemPrompts';
 
 const TRACE_FLAG = /^(1|true|yes)$/i.test(
@@ -9,21 +10,87 @@ const TRACE_FLAG = /^(1|true|yes)$/i.test(
 );
 
 const MAX_TRACE_PREVIEW = Number.parseInt(process.env.PROMPT_TRACE_PREVIEW_LENGTH ?? '2000', 10);
+const COMPLETION_RESERVE_TOKENS = Number(process.env.QA_COMPLETION_RESERVE_TOKENS ?? '2048');
+const MAX_PROMPT_TOKENS = Number(process.env.QA_PROMPT_MAX_TOKENS ?? '0');
+// Role markers and message framing added by the chat API per message.
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+/** Separates sections of the user prompt and retrieved blocks inside a context section. */
+export const CONTEXT_BLOCK_SEPARATOR = '\n\n---\n\n';
 
 export interface PromptSection {
   title: string;
   content: string | null | undefined;
 }
 
+export interface PromptTokenBudget {
+  maxTokens: number;
+  /** Chat model whose tokenizer counts the prompt. */
+  model?: string;
+}
+
 export interface BuildUnifiedUserPromptOptions {
   question: string;
   chatHistory?: string | null;
   instructions?: string | null;
   contextSections?: PromptSection[];
+  /** When set, retrieved context is trimmed block by block so the prompt fits. */
+  tokenBudget?: PromptTokenBudget;
+}
+
+/**
+ * Keeps whole context blocks (split on CONTEXT_BLOCK_SEPARATOR) in order until the
+ * budget runs out. Retrieval results arrive best-first, so the tail is dropped; a
+ * first block that alone is too large is cut at the token limit.
+ */
+function fitContextSections(
+  sections: { title: string; content: string }[],
+  availableTokens: number,
+  model?: string
+): { title: string; content: string }[] {
+  const separatorTokens = countTokens(CONTEXT_BLOCK_SEPARATOR, model);
+  const fitted: { title: string; content: string }[] = [];
+  let remaining = availableTokens;
+  let droppedBlocks = 0;
+
+  for (const section of sections) {
+    const blocks = section.content.split(CONTEXT_BLOCK_SEPARATOR);
+    const headerTokens = countTokens(`## ${section.title}\n`, model) + separatorTokens;
+    const kept: string[] = [];
+
+    if (remaining > headerTokens) {
+      remaining -= headerTokens;
+      for (const block of blocks) {
+        const cost = countTokens(block, model) + (kept.length ? separatorTokens : 0);
+        if (cost <= remaining) {
+          kept.push(block);
+          remaining -= cost;
+          continue;
+        }
+
+        if (kept.length === 0 && remaining > 0) {
+          kept.push(truncateToTokens(block, remaining, model));
+        }
+        remaining = 0;
+        break;
+      }
+    }
+
+    droppedBlocks += blocks.length - kept.length;
+    if (kept.length) {
+      fitted.push({ title: section.title, content: kept.join(CONTEXT_BLOCK_SEPARATOR) });
+    }
+  }
+
+  if (droppedBlocks > 0) {
+    console.warn(`Prompt token budget reached: dropped ${droppedBlocks} retrieved context block(s).`);
+  }
+
+  return fitted;
 }
 
 export function buildUnifiedUserPrompt(options: BuildUnifiedUserPromptOptions): string {
-  const { question, chatHistory, instructions, contextSections = [] } = options;
+  const { question, chatHistory, instructions, contextSections = [], tokenBudget } = options;
 
   const sections: string[] = [];
   const pushSection = (label: string, value: string | null | undefined) => {
@@ -40,30 +107,61 @@ export function buildUnifiedUserPrompt(options: BuildUnifiedUserPromptOptions):
 
   pushSection('Conversation History', chatHistory ?? undefined);
 
-  contextSections
+  let context = contextSections
     .map((section) => ({
       title: section.title.trim() || 'Context',
-      content: section.content?.trim(),
+      content: section.content?.trim() ?? '',
     }))
-    .filter((section) => !!section.content)
-    .forEach((section) => {
-      pushSection(section.title, section.content ?? undefined);
-    });
+    .filter((section) => !!section.content);
+
+  if (tokenBudget) {
+    const fixedPrompt = [...sections, `## User Question\n${question.trim()}`].join(CONTEXT_BLOCK_SEPARATOR);
+    context = fitContextSections(
+      context,
+      tokenBudget.maxTokens - countTokens(fixedPrompt, tokenBudget.model),
+      tokenBudget.model
+    );
+  }
+
+  context.forEach((section) => {
+    pushSection(section.title, section.content);
+  });
 
   pushSection('User Question', question);
 
-  return sections.join('\n\n---\n\n');
+  return sections.join(CONTEXT_BLOCK_SEPARATOR);
 }
 
 export interface BuildProviderMessagesOptions extends BuildUnifiedUserPromptOptions {
   systemPrompt?: string;
+  /**
+   * Chat model the messages are sent to. When set (and no explicit tokenBudget is
+   * given), the user prompt is budgeted against the model's context window minus the
+   * system prompt and QA_COMPLETION_RESERVE_TOKENS, capped by QA_PROMPT_MAX_TOKENS.
+   */
+  model?: string;
+}
+
+function resolvePromptBudget(model: string, systemPrompt: string): PromptTokenBudget {
+  let maxTokens =
+    getContextWindow(model) -
+    countTokens(systemPrompt, model) -
+    COMPLETION_RESERVE_TOKENS -
+    MESSAGE_OVERHEAD_TOKENS * 2;
+
+  if (Number.isFinite(MAX_PROMPT_TOKENS) && MAX_PROMPT_TOKENS > 0) {
+    maxTokens = Math.min(maxTokens, MAX_PROMPT_TOKENS);
+  }
+
+  return { maxTokens, model };
 }
 
 export function buildProviderMessages(
   options: BuildProviderMessagesOptions
 ): { messages: ProviderChatMessage[]; userPrompt: string } {
-  const userPrompt = buildUnifiedUserPrompt(options);
   const systemPrompt = (options.systemPrompt ?? UNIFIED_SYSTEM_PROMPT).trim();
+  const tokenBudget = options.tokenBudget ?? (options.model ? resolvePromptBudget(options.model, systemPrompt) : undefined);
+  const userPrompt = buildUnifiedUserPrompt({ ...options, tokenBudget });
 
   const messages: ProviderChatMessage[] = [
     { role: 'system', content: systemPrompt },
@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, mock, test } from 'node:test';
+import type { ProviderChatMessage } from '../modelProvider';
+
+// Circuit and retry settings are read at load, so they are set before the module is imported.
+process.env.PROVIDER_CIRCUIT_FAILURE_THRESHOLD = '2';
+process.env.PROVIDER_CIRCUIT_COOLDOWN_SECONDS = '60';
+process.env.RATE_LIMIT_BASE_DELAY_MS = '1';
+
+const MESSAGES: ProviderChatMessage[] = [{ role: 'user', content: '## User Question\nIs the mock up?' }];
+
+function httpError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+describe('provider failover', () => {
+  let failover: typeof import('../failover');
+  let mockChatResponse: (typeof import('../mockProvider'))['mockChatResponse'];
+  // Breakers are shared per provider name, so each test uses its own names.
+  let testId = 0;
+  const names = (...providers: string[]) => providers.map((provider) => `${provider}-${testId}`);
+
+  before(async () => {
+    failover = await import('../failover');
+    ({ mockChatResponse } = await import('../mockProvider'));
+  });
+
+  afterEach(() => {
+    testId += 1;
+    mock.timers.reset();
+  });
+
+  const answerWithMock = async (provider: string) => {
+    if (!provider.startsWith('mock')) {
+      throw httpError(503);
+    }
+    return mockChatResponse(MESSAGES, 'mock-chat');
+  };
+
+  describe('isTransientProviderError', () => {
+    test('treats rate limits, 408, 5xx and dropped connections as transient', () => {
+      const { isTransientProviderError } = failover;
+      assert.equal(isTransientProviderError(httpError(429)), true);
+      assert.equal(isTransientProviderError(httpError(408)), true);
+      assert.equal(isTransientProviderError(httpError(502)), true);
+      assert.equal(isTransientProviderError(new Error('You hit the rate limit')), true);
+      assert.equal(isTransientProviderError(Object.assign(new Error('reset'), { code: 'ECONNRESET' })), true);
+      assert.equal(isTransientProviderError(new Error('fetch failed', { cause: { code: 'ETIMEDOUT' } })), true);
+      assert.equal(isTransientProviderError(Object.assign(new Error('down'), { name: 'APIConnectionError' })), true);
+    });
+
+    test('treats client errors and non-errors as permanent', () => {
+      const { isTransientProviderError } = failover;
+      assert.equal(isTransientProviderError(httpError(400)), false);
+      assert.equal(isTransientProviderError(httpError(401)), false);
+      assert.equal(isTransientProviderError(new Error('bad prompt')), false);
+      assert.equal(isTransientProviderError('503'), false);
+      assert.equal(isTransientProviderError(null), false);
+    });
+  });
+
+  describe('withFailover', () => {
+    test('moves down the chain after a transient failure and reports the attempts', async () => {
+      const [primary, backup] = names('openai', 'mock');
+      const calls: string[] = [];
+
+      const { result, provider, attempts } = await failover.withFailover(
+        [primary, backup],
+        (name) => {
+          calls.push(name);
+          return answerWithMock(name);
+        },
+        { label: 'Chat', operation: 'chat', maxRetries: 0 }
+      );
+
+      assert.equal(result, '[mock-chat] Is the mock up?');
+      assert.equal(provider, backup);
+      assert.deepEqual(calls, [primary, backup]);
+      assert.deepEqual(attempts, [{ provider: primary, error: 'HTTP 503' }]);
+    });
+
+    test('retries each provider up to maxRetries before failing over', async () => {
+      const [primary, backup] = names('openai', 'qwen');
+      const calls: string[] = [];
+
+      await assert.rejects(
+        failover.withFailover(
+          [primary, backup],
+          async (name) => {
+            calls.push(name);
+            throw httpError(500);
+          },
+          { label: 'Chat', operation: 'chat', maxRetries: 2 }
+        ),
+        (error: unknown) => {
+          assert.ok(error instanceof failover.ProviderUnavailableError);
+          assert.deepEqual(
+            error.attempts.map((attempt) => attempt.provider),
+            [primary, backup]
+          );
+          return true;
+        }
+      );
+      assert.deepEqual(calls, [primary, primary, primary, backup, backup, backup]);
+    });
+
+    test('rethrows a permanent error without trying the next provider', async () => {
+      const [primary, backup] = names('openai', 'mock');
+      const calls: string[] = [];
+
+      await assert.rejects(
+        failover.withFailover(
+          [primary, backup],
+          async (name) => {
+            calls.push(name);
+            throw httpError(401, 'invalid API key');
+          },
+          { label: 'Chat', operation: 'chat', maxRetries: 3 }
+        ),
+        /invalid API key/
+      );
+      assert.deepEqual(calls, [primary]);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), false);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const failOnce = (chain: string[]) =>
+      failover
+        .withFailover(chain, answerWithMock, { label: 'Chat', operation: 'chat', maxRetries: 0 })
+        .catch(() => undefined);
+
+    test('opens after consecutive failures and skips the provider while open', async () => {
+      const [primary, backup] = names('openai', 'mock');
+      mock.timers.enable({ apis: ['Date'] });
+
+      await failOnce([primary]);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), false);
+      await failOnce([primary]);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), true);
+      // Embeddings have their own circuit.
+      assert.equal(failover.isCircuitOpen(primary, 'embeddings'), false);
+
+      let primaryCalled = false;
+      const { provider, attempts } = await failover.withFailover(
+        [primary, backup],
+        (name) => {
+          primaryCalled ||= name === primary;
+          return answerWithMock(name);
+        },
+        { label: 'Chat', operation: 'chat', maxRetries: 0 }
+      );
+      assert.equal(primaryCalled, false);
+      assert.equal(provider, backup);
+      assert.deepEqual(attempts, [{ provider: primary, error: 'circuit open' }]);
+    });
+
+    test('lets one probe through after the cooldown and closes on success', async () => {
+      const [primary] = names('mock');
+      mock.timers.enable({ apis: ['Date'] });
+      failover.recordProviderFailure(primary, 'chat', httpError(503));
+      failover.recordProviderFailure(primary, 'chat', httpError(503));
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), true);
+
+      mock.timers.tick(60_000);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), false);
+
+      let releaseProbe: () => void = () => undefined;
+      const probe = failover.withFailover(
+        [primary],
+        (name) =>
+          new Promise<string>((resolve) => {
+            releaseProbe = () => resolve(mockChatResponse(MESSAGES, name));
+          }),
+        { label: 'Chat', operation: 'chat', maxRetries: 0 }
+      );
+      // Half-open: a second call is refused while the probe is in flight.
+      await assert.rejects(
+        failover.withFailover([primary], answerWithMock, { label: 'Chat', operation: 'chat', maxRetries: 0 }),
+        failover.ProviderUnavailableError
+      );
+
+      releaseProbe();
+      assert.equal((await probe).provider, primary);
+      const { attempts } = await failover.withFailover([primary], answerWithMock, {
+        label: 'Chat',
+        operation: 'chat',
+        maxRetries: 0,
+      });
+      assert.deepEqual(attempts, []);
+    });
+
+    test('reopens after a failed probe', async () => {
+      const [primary] = names('openai');
+      mock.timers.enable({ apis: ['Date'] });
+      await failOnce([primary]);
+      await failOnce([primary]);
+
+      mock.timers.tick(60_000);
+      await failOnce([primary]);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), true);
+
+      mock.timers.tick(59_000);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), true);
+      mock.timers.tick(1_000);
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), false);
+    });
+
+    test('ignores permanent errors reported after the call returned', () => {
+      const [primary] = names('openai');
+      failover.recordProviderFailure(primary, 'chat', httpError(400));
+      failover.recordProviderFailure(primary, 'chat', httpError(400));
+      assert.equal(failover.isCircuitOpen(primary, 'chat'), false);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, test } from 'node:test';
+import { mockChatResponse } from '../mockProvider';
+
+const MODEL = 'mock-chat';
+
+describe('mockChatResponse', () => {
+  const scriptDirs: string[] = [];
+
+  function useScript(script: unknown) {
+    const dir = mkdtempSync(path.join(tmpdir(), 'mock-script-'));
+    scriptDirs.push(dir);
+    const scriptPath = path.join(dir, 'script.json');
+    writeFileSync(scriptPath, JSON.stringify(script));
+    process.env.MOCK_CHAT_SCRIPT = scriptPath;
+  }
+
+  afterEach(() => {
+    delete process.env.MOCK_CHAT_SCRIPT;
+    scriptDirs.splice(0).forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+  });
+
+  test('echoes the user question of a QA prompt', () => {
+    const reply = mockChatResponse(
+      [{ role: 'user', content: '## Context\nSome passage.\n\n## User Question\nHow do I deploy?' }],
+      MODEL
+    );
+    assert.equal(reply, '[mock-chat] How do I deploy?');
+  });
+
+  test('answers a query rewrite with the follow-up question', () => {
+    const reply = mockChatResponse(
+      [
+        { role: 'system', content: 'You rewrite follow-up questions into standalone search queries.' },
+        {
+          role: 'user',
+          content: 'Conversation history:\nuser: How many leave days do we get?\n\nFollow-up question: and can they carry over?\n\nStandalone query:',
+        },
+      ],
+      MODEL
+    );
+    assert.equal(reply, 'and can they carry over?');
+  });
+
+  test('answers a rerank prompt with one JSON score per passage', () => {
+    const reply = mockChatResponse(
+      [
+        {
+          role: 'user',
+          content: [
+            'Question: deploy staging',
+            '',
+            'Passages:',
+            '',
+            '[1] Runbook — Deploy\nDeploy to staging with the pipeline.',
+            '',
+            '[2] Leave policy\nEmployees get 25 days.',
+            '',
+            '[3] Release notes\nThe deploy step is faster.',
+          ].join('\n'),
+        },
+      ],
+      MODEL
+    );
+    assert.deepEqual(JSON.parse(reply), { scores: [10, 0, 5] });
+  });
+
+  test('prefers a matching script rule over the echo', () => {
+    useScript({ responses: [{ match: 'deploy', response: 'Use the pipeline.' }], default: 'No idea.' });
+    assert.equal(mockChatResponse([{ role: 'user', content: 'How do I DEPLOY?' }], MODEL), 'Use the pipeline.');
+    assert.equal(mockChatResponse([{ role: 'user', content: 'Who is on call?' }], MODEL), 'No idea.');
+  });
+
+  test('rejects invalid match patterns when the script loads', () => {
+    useScript({ responses: [{ match: 'deploy(', response: 'never used' }] });
+    assert.throws(
+      () => mockChatResponse([{ role: 'user', content: 'anything' }], MODEL),
+      /Invalid mock chat script at .*responses\.0\.match: invalid regular expression/
+    );
+  });
+});
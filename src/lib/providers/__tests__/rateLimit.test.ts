@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { RateLimiter, retryOnRateLimit } from '../rateLimit';
+
+// Lets queued promise callbacks run; setImmediate is not faked.
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+function track(promise: Promise<unknown>) {
+  const state = { settled: false, error: undefined as unknown };
+  promise.then(
+    () => {
+      state.settled = true;
+    },
+    (error) => {
+      state.settled = true;
+      state.error = error;
+    }
+  );
+  return state;
+}
+
+function rateLimited(retryAfter?: string) {
+  return Object.assign(new Error('429 Too Many Requests'), {
+    status: 429,
+    headers: retryAfter ? { 'retry-after': retryAfter } : {},
+  });
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test('lets a full bucket through and then waits for the refill', async () => {
+    const limiter = new RateLimiter({ rpm: 2 });
+    await limiter.acquire(1);
+    await limiter.acquire(1);
+
+    const third = track(limiter.acquire(1));
+    await flush();
+    mock.timers.tick(29_999);
+    await flush();
+    assert.equal(third.settled, false);
+
+    mock.timers.tick(1);
+    await flush();
+    assert.equal(third.settled, true);
+  });
+
+  test('serves waiting requests in order', async () => {
+    const limiter = new RateLimiter({ rpm: 1 });
+    await limiter.acquire(1);
+
+    const order: number[] = [];
+    const first = limiter.acquire(1).then(() => order.push(1));
+    const second = limiter.acquire(1).then(() => order.push(2));
+    for (let minute = 0; minute < 2; minute += 1) {
+      await flush();
+      mock.timers.tick(60_000);
+    }
+    await Promise.all([first, second]);
+    assert.deepEqual(order, [1, 2]);
+  });
+
+  test('limits tokens per minute and caps an oversized request at the bucket size', async () => {
+    const limiter = new RateLimiter({ tpm: 100 });
+    await limiter.acquire(60);
+
+    // 500 tokens never fit; it waits for a full bucket (60 tokens short, 36s) and goes through alone.
+    const oversized = track(limiter.acquire(500));
+    await flush();
+    mock.timers.tick(35_999);
+    await flush();
+    assert.equal(oversized.settled, false);
+    mock.timers.tick(1);
+    await flush();
+    assert.equal(oversized.settled, true);
+  });
+
+  test('rejects a waiting request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ rpm: 1 });
+    await limiter.acquire(1);
+
+    const controller = new AbortController();
+    const waiting = track(limiter.acquire(1, controller.signal));
+    await flush();
+    controller.abort(new Error('stopped'));
+    await flush();
+    assert.equal((waiting.error as Error | undefined)?.message, 'stopped');
+
+    // The aborted request gave its place back; the next one still waits only for the refill.
+    const next = track(limiter.acquire(1));
+    await flush();
+    mock.timers.tick(60_000);
+    await flush();
+    assert.equal(next.settled, true);
+  });
+
+  test('is disabled without limits', async () => {
+    const limiter = new RateLimiter({});
+    assert.equal(limiter.enabled, false);
+    await limiter.acquire(1_000_000);
+  });
+});
+
+describe('retryOnRateLimit', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test('waits for Retry-After before retrying a 429', async () => {
+    let calls = 0;
+    const result = track(
+      retryOnRateLimit(
+        async () => {
+          calls += 1;
+          if (calls === 1) {
+            throw rateLimited('2');
+          }
+          return 'ok';
+        },
+        { label: 'Embedding' }
+      )
+    );
+
+    await flush();
+    mock.timers.tick(1_999);
+    await flush();
+    assert.equal(calls, 1);
+    mock.timers.tick(1);
+    await flush();
+    assert.equal(calls, 2);
+    assert.equal(result.settled, true);
+  });
+
+  test('rethrows other errors without retrying', async () => {
+    let calls = 0;
+    await assert.rejects(
+      retryOnRateLimit(
+        async () => {
+          calls += 1;
+          throw Object.assign(new Error('bad request'), { status: 400 });
+        },
+        { label: 'Embedding' }
+      ),
+      /bad request/
+    );
+    assert.equal(calls, 1);
+  });
+
+  test('gives up after maxRetries', async () => {
+    let calls = 0;
+    const result = track(
+      retryOnRateLimit(
+        async () => {
+          calls += 1;
+          throw rateLimited('1');
+        },
+        { label: 'Embedding', maxRetries: 2 }
+      )
+    );
+
+    for (let retry = 0; retry < 2; retry += 1) {
+      await flush();
+      mock.timers.tick(1_000);
+    }
+    await flush();
+    assert.equal(calls, 3);
+    assert.match((result.error as Error | undefined)?.message ?? '', /429/);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+// The shared registry is built once from PROVIDERS_CONFIG and MOCK_PROVIDER is read
+// at load, so the environment is set before the module is imported.
+const workDir = mkdtempSync(path.join(tmpdir(), 'provider-registry-'));
+let configCount = 0;
+
+function writeConfig(config: unknown): string {
+  configCount += 1;
+  const configPath = path.join(workDir, `providers-${configCount}.json`);
+  writeFileSync(configPath, JSON.stringify(config));
+  return configPath;
+}
+
+delete process.env.PROVIDER;
+delete process.env.PROVIDER_FALLBACKS;
+delete process.env.MOCK_PROVIDER;
+delete process.env.OPENAI_API_KEY;
+process.env.PROVIDERS_CONFIG = writeConfig({
+  defaultProvider: 'scripted',
+  providers: [{ name: 'scripted', type: 'mock', chatModel: 'scripted-chat', fallbacks: ['openai', 'mock'] }],
+});
+
+describe('provider registry', () => {
+  let registry: typeof import('../registry');
+
+  before(async () => {
+    registry = await import('../registry');
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('loadProviderRegistry', () => {
+    test('rejects an entry that fails the schema with its path', () => {
+      const configPath = writeConfig({ providers: [{ name: 'Azure OpenAI', baseUrl: 'not a url', chatModel: 'gpt-4o' }] });
+      assert.throws(
+        () => registry.loadProviderRegistry(configPath),
+        /Invalid provider config at .*providers-\d+\.json: providers\.0\.name: must be lowercase .*; providers\.0\.baseUrl: Invalid url/
+      );
+    });
+
+    test('rejects unknown keys and an empty provider list', () => {
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ providers: [{ name: 'qwen', apiKey: 'sk-inline' }] })),
+        /providers\.0: Unrecognized key\(s\) in object: 'apiKey'/
+      );
+      assert.throws(() => registry.loadProviderRegistry(writeConfig({ providers: [] })), /providers: Array must contain at least 1/);
+    });
+
+    test('rejects duplicate names and custom endpoints without a URL or model', () => {
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ providers: [{ name: 'qwen' }, { name: 'qwen' }] })),
+        /Provider qwen is listed more than once/
+      );
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ providers: [{ name: 'ollama', chatModel: 'llama3' }] })),
+        /Provider ollama .* needs a baseUrl or baseUrlEnv/
+      );
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ providers: [{ name: 'ollama', baseUrl: 'http://localhost:11434/v1' }] })),
+        /Provider ollama .* needs a chat or embedding model/
+      );
+    });
+
+    test('rejects unknown default providers and fallbacks', () => {
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ defaultProvider: 'claude', providers: [{ name: 'qwen' }] })),
+        (error: unknown) => error instanceof registry.UnknownProviderError && /Unknown provider "claude"/.test(error.message)
+      );
+      assert.throws(
+        () => registry.loadProviderRegistry(writeConfig({ providers: [{ name: 'qwen', fallbacks: ['openai', 'nope'] }] })),
+        (error: unknown) =>
+          error instanceof registry.UnknownProviderError &&
+          error.message === 'Unknown provider "nope". Configured providers: openai, qwen, mock.'
+      );
+    });
+
+    test('overrides built-ins, adds endpoints and resolves fallback aliases', () => {
+      const loaded = registry.loadProviderRegistry(
+        writeConfig({
+          defaultProvider: 'tongyi',
+          providers: [
+            { name: 'qwen', chatModel: 'qwen-plus', fallbacks: ['gpt', 'qwen', 'openai', 'ollama'] },
+            { name: 'ollama', baseUrl: 'http://localhost:11434/v1', chatModel: 'llama3' },
+          ],
+        })
+      );
+
+      assert.equal(loaded.defaultProvider, 'qwen');
+      const qwen = loaded.providers.find((provider) => provider.name === 'qwen');
+      assert.equal(qwen?.chatModel, 'qwen-plus');
+      assert.equal(qwen?.displayName, 'Qwen (通义千问)');
+      // Aliases resolve to names; the provider itself and duplicates are dropped.
+      assert.deepEqual(qwen?.fallbacks, ['openai', 'ollama']);
+      assert.equal(loaded.providers.find((provider) => provider.name === 'ollama')?.displayName, 'ollama');
+    });
+  });
+
+  describe('shared registry', () => {
+    test('looks providers up by name or alias and falls back to the default', () => {
+      assert.equal(registry.getProviderDefinition('ChatGPT').name, 'openai');
+      assert.equal(registry.getProviderDefinition('  ').name, 'scripted');
+      assert.equal(registry.getProviderDefinition().name, 'scripted');
+      assert.throws(() => registry.getProviderDefinition('claude'), registry.UnknownProviderError);
+    });
+
+    test('keeps a mock provider out unless it is the default', () => {
+      assert.equal(registry.isProviderConfigured(registry.getProviderDefinition('scripted')), true);
+      assert.equal(registry.isProviderConfigured(registry.getProviderDefinition('mock')), false);
+      assert.ok(!registry.listProviderOptions().some((option) => option.name === 'mock'));
+    });
+
+    test('offers the mock provider when MOCK_PROVIDER is set', () => {
+      // MOCK_PROVIDER is read at load, so this runs against a fresh module in a child process.
+      const script = `const registry = require(${JSON.stringify(path.join(__dirname, '..', 'registry.ts'))});
+        console.log(JSON.stringify(registry.listProviderOptions().map((option) => option.name)));`;
+      const env: NodeJS.ProcessEnv = { ...process.env, MOCK_PROVIDER: 'true', PROVIDERS_CONFIG: '' };
+      delete env.NODE_OPTIONS;
+      const child = spawnSync(process.execPath, ['--import', 'tsx', '-e', script], { cwd: __dirname, env, encoding: 'utf8' });
+
+      assert.equal(child.status, 0, child.stderr);
+      assert.ok((JSON.parse(child.stdout) as string[]).includes('mock'));
+    });
+
+    test('leaves fallbacks without an API key or mock gating out of the failover chain', () => {
+      assert.deepEqual(registry.resolveFailoverChain(), ['scripted']);
+
+      process.env.OPENAI_API_KEY = 'sk-test';
+      try {
+        assert.deepEqual(registry.resolveFailoverChain('scripted'), ['scripted', 'openai']);
+      } finally {
+        delete process.env.OPENAI_API_KEY;
+      }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { calculateCost, findModelPrice } from '../pricing';
+import { combineEmbeddingUsage, formatCost, summarizeEmbeddingUsage, UsageLedger } from '../usage';
+
+// The price table is read on first use, so pointing MODEL_PRICES_CONFIG here is enough.
+const workDir = mkdtempSync(path.join(tmpdir(), 'model-prices-'));
+process.env.MODEL_PRICES_CONFIG = path.join(workDir, 'model-prices.json');
+writeFileSync(
+  process.env.MODEL_PRICES_CONFIG,
+  JSON.stringify({
+    currency: 'CNY',
+    models: {
+      'gpt-4o-mini': { input: 1, output: 4 },
+      'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'qwen-max': { input: 2.4 },
+      'text-embedding-3-small': { input: 0.02 },
+    },
+  })
+);
+
+function assertCost(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-12, `expected ${expected}, got ${actual}`);
+}
+
+describe('pricing', () => {
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('prefers the provider-specific price over the plain model name', () => {
+    assert.deepEqual(findModelPrice('openai', 'gpt-4o-mini'), { input: 0.15, output: 0.6 });
+    assert.deepEqual(findModelPrice('azure', 'gpt-4o-mini'), { input: 1, output: 4 });
+  });
+
+  test('prices input and output tokens per million', () => {
+    assertCost(calculateCost('openai', 'gpt-4o-mini', 1_000_000, 500_000), 0.45);
+    assertCost(calculateCost('openai', 'text-embedding-3-small', 2_000_000), 0.04);
+  });
+
+  test('charges output at the input price when no output price is set', () => {
+    assertCost(calculateCost('qwen', 'qwen-max', 1_000, 1_000), 0.0048);
+  });
+
+  test('returns undefined for a model without a price', () => {
+    assert.equal(findModelPrice('qwen', 'qwen-turbo'), undefined);
+    assert.equal(calculateCost('qwen', 'qwen-turbo', 1_000, 1_000), undefined);
+  });
+});
+
+describe('UsageLedger', () => {
+  test('sums tokens and cost across calls and lists unpriced models once', () => {
+    const ledger = new UsageLedger();
+    ledger.record('openai', 'gpt-4o-mini', 'query-rewrite', { promptTokens: 200_000, completionTokens: 10_000, totalTokens: 210_000 });
+    ledger.record('qwen', 'qwen-max', 'answer', { promptTokens: 100_000, completionTokens: 50_000, totalTokens: 150_000 });
+    ledger.record('qwen', 'qwen-turbo', 'rerank', {
+      promptTokens: 1_000,
+      completionTokens: 20,
+      totalTokens: 1_020,
+      estimated: true,
+    });
+    ledger.record('qwen', 'qwen-turbo', 'rerank', { promptTokens: 500, completionTokens: 10, totalTokens: 510 });
+
+    const summary = ledger.summarize();
+    assert.equal(summary.promptTokens, 301_500);
+    assert.equal(summary.completionTokens, 60_030);
+    assert.equal(summary.totalTokens, 361_530);
+    assert.equal(summary.estimated, true);
+    assert.equal(summary.currency, 'CNY');
+    // 0.2 × 0.15 + 0.01 × 0.6 + 0.15 × 2.4; the unpriced calls add nothing.
+    assertCost(summary.cost, 0.03 + 0.006 + 0.36);
+    assert.deepEqual(summary.unpricedModels, ['qwen:qwen-turbo']);
+    assert.deepEqual(
+      summary.calls.map((call) => call.purpose),
+      ['query-rewrite', 'answer', 'rerank', 'rerank']
+    );
+    assertCost(summary.calls[0].cost, 0.036);
+  });
+
+  test('reports no cost when no call was priced', () => {
+    const ledger = new UsageLedger();
+    ledger.record('qwen', 'qwen-turbo', 'answer', { promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+
+    const summary = ledger.summarize();
+    assert.equal(summary.cost, undefined);
+    assert.equal(summary.estimated, undefined);
+    assert.equal(formatCost(summary.cost, summary.currency), 'n/a');
+  });
+});
+
+describe('embedding usage', () => {
+  const start = [{ provider: 'openai', model: 'text-embedding-3-small', tokens: 1_000, requests: 2 }];
+  const now = [
+    { provider: 'openai', model: 'text-embedding-3-small', tokens: 501_000, requests: 7 },
+    { provider: 'qwen', model: 'text-embedding-v4', tokens: 300, requests: 1, estimated: true },
+  ];
+
+  test('subtracts a starting snapshot and drops models without requests', () => {
+    assert.deepEqual(combineEmbeddingUsage(now, start, -1), [
+      { provider: 'openai', model: 'text-embedding-3-small', tokens: 500_000, requests: 5 },
+      { provider: 'qwen', model: 'text-embedding-v4', tokens: 300, requests: 1, estimated: true },
+    ]);
+    assert.deepEqual(combineEmbeddingUsage(start, start, -1), []);
+  });
+
+  test('sums usage carried over from an earlier attempt', () => {
+    const [openai] = combineEmbeddingUsage(start, start);
+    assert.equal(openai.tokens, 2_000);
+    assert.equal(openai.requests, 4);
+  });
+
+  test('totals tokens, requests and priced cost across models', () => {
+    const summary = summarizeEmbeddingUsage(combineEmbeddingUsage(now, start, -1));
+
+    assert.equal(summary.tokens, 500_300);
+    assert.equal(summary.requests, 6);
+    assertCost(summary.cost, 0.01);
+    assert.equal(summary.currency, 'CNY');
+    assert.deepEqual(summary.unpricedModels, ['qwen:text-embedding-v4']);
+    assert.equal(formatCost(summary.cost, summary.currency), '0.0100 CNY');
+  });
+});
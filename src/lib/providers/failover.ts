@@ -0,0 +1,173 @@
+import { isRateLimitError, retryOnRateLimit } from './rateLimit';
+import type { ProviderName } from './types';
+
+const FAILURE_THRESHOLD = Math.max(1, Number(process.env.PROVIDER_CIRCUIT_FAILURE_THRESHOLD ?? '3'));
+const COOLDOWN_MS = Number(process.env.PROVIDER_CIRCUIT_COOLDOWN_SECONDS ?? '60') * 1000;
+const TRANSIENT_ERROR_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT']);
+
+export type ProviderOperation = 'chat' | 'embeddings';
+
+export interface FailoverAttempt {
+  provider: ProviderName;
+  error: string;
+}
+
+export interface FailoverOptions {
+  label: string;
+  operation: ProviderOperation;
+  /** Retries per provider before moving down the chain. */
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+/** Thrown when every provider in a failover chain failed or had its circuit open. */
+export class ProviderUnavailableError extends Error {
+  constructor(label: string, readonly attempts: FailoverAttempt[]) {
+    super(
+      `${label} failed on every provider: ${attempts.map((attempt) => `${attempt.provider} (${attempt.error})`).join('; ')}`
+    );
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/** Rate limits, 5xx responses, timeouts and dropped connections; worth retrying or failing over. */
+export function isTransientProviderError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  if (isRateLimitError(error)) {
+    return true;
+  }
+
+  const { status, code, name } = error as { status?: number; code?: string; name?: string };
+  if (typeof status === 'number') {
+    return status === 408 || status >= 500;
+  }
+  if (name === 'APIConnectionError' || name === 'APIConnectionTimeoutError') {
+    return true;
+  }
+  const cause = (error as { cause?: { code?: string } }).cause;
+  return TRANSIENT_ERROR_CODES.has(code ?? '') || TRANSIENT_ERROR_CODES.has(cause?.code ?? '');
+}
+
+/**
+ * Opens after FAILURE_THRESHOLD consecutive transient failures and rejects calls
+ * for COOLDOWN_MS. After the cooldown a single probe request is let through: success
+ * closes the circuit, failure opens it for another cooldown.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(private readonly name: string) {}
+
+  tryAcquire(): boolean {
+    if (this.openUntil === 0) {
+      return true;
+    }
+    if (Date.now() < this.openUntil || this.probing) {
+      return false;
+    }
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess() {
+    if (this.openUntil !== 0) {
+      console.log(`Circuit for ${this.name} closed; the provider is answering again.`);
+    }
+    this.failures = 0;
+    this.openUntil = 0;
+    this.probing = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.probing || this.failures >= FAILURE_THRESHOLD) {
+      this.openUntil = Date.now() + COOLDOWN_MS;
+      this.probing = false;
+      console.warn(
+        `Circuit for ${this.name} opened after ${this.failures} consecutive failures; skipping it for ${COOLDOWN_MS / 1000}s.`
+      );
+    }
+  }
+
+  /** Releases a probe slot without judging the provider, e.g. after a non-transient error. */
+  release() {
+    this.probing = false;
+  }
+
+  get open(): boolean {
+    return this.openUntil !== 0 && Date.now() < this.openUntil;
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+// Chat and embeddings are tracked separately; one endpoint can be down or rate limited without the other.
+function getCircuitBreaker(provider: ProviderName, operation: ProviderOperation): CircuitBreaker {
+  const key = `${provider}:${operation}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(`${provider} ${operation}`);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function isCircuitOpen(provider: ProviderName, operation: ProviderOperation): boolean {
+  return getCircuitBreaker(provider, operation).open;
+}
+
+/** Counts a failure that surfaced after `withFailover` returned, such as a stream dying mid-answer. */
+export function recordProviderFailure(provider: ProviderName, operation: ProviderOperation, error: unknown) {
+  if (isTransientProviderError(error)) {
+    getCircuitBreaker(provider, operation).recordFailure();
+  }
+}
+
+/**
+ * Runs `run` against each provider in `chain` in turn. Transient errors are retried
+ * with backoff on the same provider first and then move on to the next one; other
+ * errors (bad requests, auth failures) are rethrown straight away. Providers whose
+ * circuit is open are skipped.
+ */
+export async function withFailover<T>(
+  chain: ProviderName[],
+  run: (provider: ProviderName) => Promise<T>,
+  options: FailoverOptions
+): Promise<{ result: T; provider: ProviderName; attempts: FailoverAttempt[] }> {
+  const attempts: FailoverAttempt[] = [];
+
+  for (const provider of chain) {
+    const breaker = getCircuitBreaker(provider, options.operation);
+    if (!breaker.tryAcquire()) {
+      attempts.push({ provider, error: 'circuit open' });
+      continue;
+    }
+
+    try {
+      const result = await retryOnRateLimit(() => run(provider), {
+        label: `${options.label} (${provider})`,
+        maxRetries: options.maxRetries,
+        signal: options.signal,
+        shouldRetry: isTransientProviderError,
+      });
+      breaker.recordSuccess();
+      if (attempts.length > 0) {
+        console.warn(`${options.label} failed over to ${provider} after: ${attempts.map((attempt) => attempt.provider).join(', ')}`);
+      }
+      return { result, provider, attempts };
+    } catch (error) {
+      if (!isTransientProviderError(error) || options.signal?.aborted) {
+        breaker.release();
+        throw error;
+      }
+      breaker.recordFailure();
+      attempts.push({ provider, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  throw new ProviderUnavailableError(options.label, attempts);
+}
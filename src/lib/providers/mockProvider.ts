@@ -0,0 +1,210 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { z } from 'zod';
+
+const EMBEDDING_DIMENSIONS = Math.max(8, Number(process.env.MOCK_EMBEDDING_DIMENSIONS ?? '256'));
+const STREAM_DELAY_MS = Number(process.env.MOCK_STREAM_DELAY_MS ?? '0');
+// Hiragana/katakana, CJK ideographs and Hangul; these scripts do not separate words with spaces.
+const TERM_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]|[a-z0-9]+/g;
+const STREAM_TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+\s*|\s+/g;
+
+// Prompts sent by condenseQuery (retrieval/queryRewrite.ts) and LlmReranker (retrieval/rerank.ts).
+const REWRITE_PROMPT_PATTERN = /\nFollow-up question: ([\s\S]*?)\n\nStandalone query:\s*$/;
+const RERANK_PROMPT_PATTERN = /^Question: ([\s\S]*?)\n\nPassages:\n\n([\s\S]*)$/;
+const RERANK_PASSAGE_PATTERN = /^\[\d+\] /m;
+
+function regexError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern, 'i');
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const mockScriptSchema = z.object({
+  responses: z.array(
+    z.object({
+      /** Case-insensitive regular expression tested against the last user message. */
+      match: z.string().superRefine((pattern, ctx) => {
+        const error = regexError(pattern);
+        if (error) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid regular expression (${error})` });
+        }
+      }),
+      response: z.string(),
+    })
+  ),
+  /** Answer when no rule matches; otherwise the question is echoed back. */
+  default: z.string().optional(),
+});
+
+interface MockScript {
+  rules: { pattern: RegExp; response: string }[];
+  default?: string;
+}
+
+interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+let scriptCache: { path: string; script: MockScript } | null = null;
+
+function loadScript(): MockScript | null {
+  const configured = process.env.MOCK_CHAT_SCRIPT;
+  if (!configured) {
+    return null;
+  }
+
+  const scriptPath = path.resolve(configured);
+  if (scriptCache?.path !== scriptPath) {
+    const parsed = mockScriptSchema.safeParse(JSON.parse(readFileSync(scriptPath, 'utf8')));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid mock chat script at ${scriptPath}: ${issues}`);
+    }
+    scriptCache = {
+      path: scriptPath,
+      script: {
+        rules: parsed.data.responses.map((rule) => ({ pattern: new RegExp(rule.match, 'i'), response: rule.response })),
+        default: parsed.data.default,
+      },
+    };
+  }
+  return scriptCache.script;
+}
+
+// 32-bit FNV-1a; stable across processes and platforms, unlike Math.random seeds.
+function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let idx = 0; idx < value.length; idx += 1) {
+    hash ^= value.charCodeAt(idx);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag-of-words vector, L2-normalised. Identical texts always get identical
+ * vectors (cosine 1), and texts sharing words score higher than unrelated ones, so
+ * retrieval behaves plausibly without a model. Each CJK character counts as a term.
+ */
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const terms = text.toLowerCase().match(TERM_PATTERN) ?? [];
+
+  (terms.length > 0 ? terms : [text]).forEach((term) => {
+    const hash = fnv1a(term);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // Every term cancelled out; fall back to a single hashed dimension so the vector is usable.
+    vector[fnv1a(text, 0x9747b28c) % EMBEDDING_DIMENSIONS] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+// QA and chat prompts end with a "## User Question" section; echo just that part.
+function extractQuestion(content: string): string {
+  const match = /## User Question\n([\s\S]*)$/.exec(content);
+  return (match ? match[1] : content).trim();
+}
+
+function extractTerms(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(TERM_PATTERN) ?? []);
+}
+
+/**
+ * Scores each numbered passage 0-10 by the share of question terms it contains,
+ * in the JSON shape the LLM reranker asks for.
+ */
+function scoreRerankPassages(question: string, passages: string): string {
+  const questionTerms = extractTerms(question);
+  const scores = passages
+    .split(RERANK_PASSAGE_PATTERN)
+    .slice(1)
+    .map((passage) => {
+      if (questionTerms.size === 0) {
+        return 0;
+      }
+      const passageTerms = extractTerms(passage);
+      const matched = [...questionTerms].filter((term) => passageTerms.has(term)).length;
+      return Math.round((matched / questionTerms.size) * 100) / 10;
+    });
+  return JSON.stringify({ scores });
+}
+
+/**
+ * Answers the query rewrite and rerank prompts the way a model would (the follow-up
+ * question as the standalone query, term-overlap scores as JSON). Other prompts are
+ * answered from MOCK_CHAT_SCRIPT when a rule matches the last user message, and
+ * otherwise the question is echoed back.
+ */
+export function mockChatResponse(messages: ChatMessage[], model: string): string {
+  const lastUser = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+  const rewrite = REWRITE_PROMPT_PATTERN.exec(lastUser);
+  if (rewrite) {
+    return rewrite[1].trim();
+  }
+  const rerank = RERANK_PROMPT_PATTERN.exec(lastUser);
+  if (rerank) {
+    return scoreRerankPassages(rerank[1], rerank[2]);
+  }
+
+  const script = loadScript();
+  const rule = script?.rules.find((candidate) => candidate.pattern.test(lastUser));
+  if (rule) {
+    return rule.response;
+  }
+  return script?.default ?? `[${model}] ${extractQuestion(lastUser)}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function buildChunk(id: string, model: string, content: string | undefined, finished: boolean): ChatCompletionChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        delta: content === undefined ? {} : { role: 'assistant', content },
+        finish_reason: finished ? 'stop' : null,
+        logprobs: null,
+      },
+    ],
+  };
+}
+
+/**
+ * Streams `text` as OpenAI-style chunks, one word (or CJK character) per chunk,
+ * pausing MOCK_STREAM_DELAY_MS between chunks. Aborting `signal` ends the stream
+ * with an AbortError, as the OpenAI client does.
+ */
+export async function* mockChatStream(
+  text: string,
+  model: string,
+  signal?: AbortSignal
+): AsyncGenerator<ChatCompletionChunk> {
+  const id = `mock-${fnv1a(text).toString(16)}`;
+  for (const token of text.match(STREAM_TOKEN_PATTERN) ?? []) {
+    if (STREAM_DELAY_MS > 0) {
+      await sleep(STREAM_DELAY_MS);
+    }
+    signal?.throwIfAborted();
+    yield buildChunk(id, model, token, false);
+  }
+  yield buildChunk(id, model, undefined, true);
+}
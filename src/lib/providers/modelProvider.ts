@@ -1,93 +1,138 @@
 import OpenAI from 'openai';
 import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
-import { normalizeProviderName, type ProviderName } from './types';
-
-interface ProviderConfig {
-  apiKeyEnv: string;
-  baseUrlEnv: string;
-  defaultBaseUrl: string;
-  chatModelEnv: string;
-  embeddingModelEnv: string;
-  fallbackChatModel: string;
-  fallbackEmbeddingModel: string;
-  displayName: string;
-}
+import { recordProviderFailure, withFailover, type FailoverAttempt } from './failover';
+import { RateLimiter } from './rateLimit';
+import { countTokens } from './tokenizer';
+import { fromOpenAIUsage, recordEmbeddingUsage, type TokenUsage, type UsageLedger } from './usage';
+import { mockChatResponse, mockChatStream, mockEmbedding } from './mockProvider';
+import {
+  getProviderDefinition,
+  isMockProvider,
+  isProviderConfigured,
+  resolveFailoverChain,
+  type ProviderDefinition,
+} from './registry';
+import type { ProviderName } from './types';
+
+const EMBEDDING_RPM = Number(process.env.EMBEDDING_RPM ?? '0');
+const EMBEDDING_TPM = Number(process.env.EMBEDDING_TPM ?? '0');
+const REQUEST_TIMEOUT_MS = Number(process.env.PROVIDER_TIMEOUT_MS ?? '60000');
+// Chat requests have a user waiting, so they move on to the next provider sooner than embedding batches.
+const CHAT_MAX_RETRIES = Number(process.env.CHAT_MAX_RETRIES ?? '1');
 
 interface ResolvedProviderConfig {
   provider: ProviderName;
-  apiKey: string;
-  baseURL: string;
-  chatModel: string;
-  embeddingModel: string;
-}
-
-const PROVIDER_CONFIGS: Record<ProviderName, ProviderConfig> = {
-  openai: {
-    apiKeyEnv: 'OPENAI_API_KEY',
-    baseUrlEnv: 'OPENAI_API_URL',
-    defaultBaseUrl: 'https://api.openai.com/v1',
-    chatModelEnv: 'OPENAI_MODEL',
-    embeddingModelEnv: 'OPENAI_EMBEDDING_MODEL',
-    fallbackChatModel: 'gpt-4o-mini',
-    fallbackEmbeddingModel: 'text-embedding-3-small',
-    displayName: 'OpenAI',
-  },
-  qwen: {
-    apiKeyEnv: 'QWEN_API_KEY',
-    baseUrlEnv: 'QWEN_API_URL',
-    defaultBaseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
-    chatModelEnv: 'QWEN_MODEL',
-    embeddingModelEnv: 'QWEN_EMBEDDING_MODEL',
-    fallbackChatModel: 'qwen-max',
-    fallbackEmbeddingModel: 'text-embedding-v4',
-    displayName: 'Qwen',
-  },
-};
-
-const clientCache = new Map<ProviderName, { client: OpenAI; config: ResolvedProviderConfig }>();
+  displayName: string;
+  mock: boolean;
+  apiKey?: string;
+  baseURL?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+  embeddingBatchSize?: number;
+}
+
+const configCache = new Map<ProviderName, ResolvedProviderConfig>();
+const clientCache = new Map<ProviderName, OpenAI>();
+const embeddingLimiters = new Map<ProviderName, RateLimiter>();
 
 function sanitizeBaseUrl(url: string): string {
   return url.replace(/\/+$/, '');
 }
 
-function resolveConfig(provider: ProviderName): ResolvedProviderConfig {
-  const definition = PROVIDER_CONFIGS[provider];
-  const apiKey = process.env[definition.apiKeyEnv];
+function readEnv(name: string | undefined): string | undefined {
+  return name ? process.env[name] || undefined : undefined;
+}
+
+function resolveConfig(definition: ProviderDefinition): ResolvedProviderConfig {
+  const models = {
+    chatModel: readEnv(definition.chatModelEnv) ?? definition.chatModel,
+    embeddingModel: readEnv(definition.embeddingModelEnv) ?? definition.embeddingModel,
+    embeddingBatchSize: definition.embeddingBatchSize,
+  };
+
+  if (isMockProvider(definition)) {
+    if (!isProviderConfigured(definition)) {
+      throw new Error(`${definition.displayName} is disabled. Set MOCK_PROVIDER=true or PROVIDER=${definition.name} to use it.`);
+    }
+    return { provider: definition.name, displayName: definition.displayName, mock: true, ...models };
+  }
 
-  if (!apiKey) {
+  const apiKey = readEnv(definition.apiKeyEnv);
+
+  if (definition.apiKeyEnv && !apiKey) {
     throw new Error(
       `${definition.displayName} API key not configured. Please set ${definition.apiKeyEnv} in your environment.`
     );
   }
 
-  const baseURL = sanitizeBaseUrl(process.env[definition.baseUrlEnv] ?? definition.defaultBaseUrl);
-  const chatModel = process.env[definition.chatModelEnv] ?? definition.fallbackChatModel;
-  const embeddingModel = process.env[definition.embeddingModelEnv] ?? definition.fallbackEmbeddingModel;
+  const baseURL = readEnv(definition.baseUrlEnv) ?? definition.baseUrl;
+  if (!baseURL) {
+    throw new Error(`${definition.displayName} base URL not configured. Please set ${definition.baseUrlEnv} in your environment.`);
+  }
 
   return {
-    provider,
+    provider: definition.name,
+    displayName: definition.displayName,
+    mock: false,
     apiKey,
-    baseURL,
-    chatModel,
-    embeddingModel,
+    baseURL: sanitizeBaseUrl(baseURL),
+    ...models,
   };
 }
 
-function getClient(provider: ProviderName): { client: OpenAI; config: ResolvedProviderConfig } {
+function getProviderConfig(provider: ProviderName): ResolvedProviderConfig {
+  let config = configCache.get(provider);
+  if (!config) {
+    config = resolveConfig(getProviderDefinition(provider));
+    configCache.set(provider, config);
+  }
+  return config;
+}
+
+function getClient(provider: ProviderName): OpenAI {
   const cached = clientCache.get(provider);
   if (cached) {
     return cached;
   }
 
-  const resolved = resolveConfig(provider);
+  const definition = getProviderDefinition(provider);
+  const config = getProviderConfig(provider);
+  if (config.mock) {
+    throw new Error(`${config.displayName} answers locally and has no API client.`);
+  }
   const client = new OpenAI({
-    apiKey: resolved.apiKey,
-    baseURL: resolved.baseURL,
+    // The SDK insists on a key; keyless endpoints such as Ollama ignore it.
+    apiKey: config.apiKey ?? 'unused',
+    baseURL: config.baseURL,
+    timeout: REQUEST_TIMEOUT_MS,
+    // Retries and failover are handled by withFailover so they are not multiplied by the SDK's own.
+    maxRetries: 0,
+    defaultQuery: definition.defaultQuery,
+    defaultHeaders:
+      definition.apiKeyHeader && config.apiKey
+        ? { [definition.apiKeyHeader]: config.apiKey, Authorization: null }
+        : undefined,
   });
 
-  const entry = { client, config: resolved };
-  clientCache.set(provider, entry);
-  return entry;
+  clientCache.set(provider, client);
+  return client;
+}
+
+function requireModel(config: ResolvedProviderConfig, kind: 'chat' | 'embedding'): string {
+  const model = kind === 'chat' ? config.chatModel : config.embeddingModel;
+  if (!model) {
+    throw new Error(`${config.displayName} has no ${kind} model configured.`);
+  }
+  return model;
+}
+
+function getEmbeddingLimiter(provider: ProviderName): RateLimiter {
+  let limiter = embeddingLimiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter({ rpm: EMBEDDING_RPM, tpm: EMBEDDING_TPM });
+    embeddingLimiters.set(provider, limiter);
+  }
+  return limiter;
 }
 
 export interface ProviderChatMessage {
@@ -100,46 +145,101 @@ export interface ChatCompletionParams {
   temperature?: number;
   model?: string;
   provider?: ProviderName | string | null;
+  /** Collects the call's token usage for the request it serves. */
+  usage?: UsageLedger;
+  /** Label for the call in usage reports; defaults to `chat`. */
+  purpose?: string;
+  /** Aborts the provider request, e.g. when the client disconnects or stops the answer. */
+  signal?: AbortSignal;
 }
 
 export type ChatCompletionStream = AsyncIterable<ChatCompletionChunk>;
 
+/**
+ * Resolves a provider name or alias against the registry; empty values mean the
+ * default provider. Unknown names throw UnknownProviderError.
+ */
 export function resolveProvider(provider?: string | ProviderName | null): ProviderName {
-  if (provider) {
-    return normalizeProviderName(typeof provider === 'string' ? provider : String(provider));
-  }
+  return getProviderDefinition(provider).name;
+}
 
-  return normalizeProviderName(process.env.PROVIDER);
+/**
+ * Providers that may embed for `provider`: itself plus fallbacks serving the same
+ * embedding model, so failover never mixes vectors from different models.
+ */
+function resolveEmbeddingChain(provider: ProviderName, model: string): ProviderName[] {
+  return resolveFailoverChain(provider).filter((candidate) => {
+    const definition = getProviderDefinition(candidate);
+    return candidate === provider || (readEnv(definition.embeddingModelEnv) ?? definition.embeddingModel) === model;
+  });
 }
 
+/**
+ * Embeds texts in provider-sized batches. Each batch waits for the provider's
+ * EMBEDDING_RPM/EMBEDDING_TPM budget, is retried with backoff on 429, 5xx and
+ * timeouts, and fails over to fallbacks that serve the same embedding model.
+ * `model` overrides the provider's configured embedding model.
+ */
 export async function embedTexts(
   texts: string[],
   provider?: string | ProviderName | null,
+  model?: string,
 ): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
   }
 
   const targetProvider = resolveProvider(provider);
-  const { client, config } = getClient(targetProvider);
-  const batchSize = targetProvider === 'qwen' ? 10 : texts.length;
+  const config = getProviderConfig(targetProvider);
+  const embeddingModel = model ?? requireModel(config, 'embedding');
+  const chain = resolveEmbeddingChain(targetProvider, embeddingModel);
+  const batchSize = config.embeddingBatchSize ?? texts.length;
   const embeddings: number[][] = [];
 
   for (let start = 0; start < texts.length; start += batchSize) {
     const batch = texts.slice(start, start + batchSize);
-    const response = await client.embeddings.create({
-      model: config.embeddingModel,
-      input: batch,
-    });
-    embeddings.push(...response.data.map((item) => item.embedding));
+    const { result } = await withFailover(
+      chain,
+      async (candidate) => {
+        if (getProviderConfig(candidate).mock) {
+          recordEmbeddingUsage(candidate, embeddingModel, batch.reduce((total, text) => total + countTokens(text, embeddingModel), 0), true);
+          return batch.map(mockEmbedding);
+        }
+        const limiter = getEmbeddingLimiter(candidate);
+        if (limiter.enabled) {
+          await limiter.acquire(batch.reduce((total, text) => total + countTokens(text, embeddingModel), 0));
+        }
+        const response = await getClient(candidate).embeddings.create({
+          model: embeddingModel,
+          input: batch,
+        });
+        const reported = response.usage?.prompt_tokens ?? response.usage?.total_tokens;
+        recordEmbeddingUsage(
+          candidate,
+          embeddingModel,
+          reported ?? batch.reduce((total, text) => total + countTokens(text, embeddingModel), 0),
+          reported === undefined
+        );
+        return response.data.map((item) => item.embedding);
+      },
+      { label: `${config.displayName} embeddings`, operation: 'embeddings' }
+    );
+    embeddings.push(...result);
   }
 
   return embeddings;
 }
+
 export function getEmbeddingModelInfo(provider?: string | ProviderName | null): { provider: ProviderName; model: string } {
   const targetProvider = resolveProvider(provider ?? null);
-  const { config } = getClient(targetProvider);
-  return { provider: targetProvider, model: config.embeddingModel };
+  const config = getProviderConfig(targetProvider);
+  return { provider: targetProvider, model: requireModel(config, 'embedding') };
+}
+
+export function getChatModelInfo(provider?: string | ProviderName | null): { provider: ProviderName; model: string } {
+  const targetProvider = resolveProvider(provider ?? null);
+  const config = getProviderConfig(targetProvider);
+  return { provider: targetProvider, model: requireModel(config, 'chat') };
 }
 
 export function getEmbeddingModelVersion(provider?: string | ProviderName | null): string {
@@ -147,45 +247,154 @@ export function getEmbeddingModelVersion(provider?: string | ProviderName | null
   return `${info.provider}:${info.model}`;
 }
 
+/** Splits a `provider:model` embedding version back into its parts. */
+export function parseEmbeddingModelVersion(embedVersion: string): { provider: ProviderName; model: string } {
+  const separator = embedVersion.indexOf(':');
+  if (separator <= 0 || separator === embedVersion.length - 1) {
+    throw new Error(`Invalid embedding model version "${embedVersion}". Expected "provider:model".`);
+  }
+  return {
+    provider: resolveProvider(embedVersion.slice(0, separator)),
+    model: embedVersion.slice(separator + 1),
+  };
+}
+
 
 export async function embedText(text: string, provider?: string | ProviderName | null): Promise<number[]> {
   const [embedding] = await embedTexts([text], provider);
   return embedding;
 }
 
+// An explicit model only applies to the requested provider; fallbacks use their own chat model.
+function resolveChatModel(params: ChatCompletionParams, requested: ProviderName, provider: ProviderName): string {
+  return (provider === requested ? params.model : undefined) ?? requireModel(getProviderConfig(provider), 'chat');
+}
+
+// Used when a provider does not report usage; message framing overhead is ignored.
+function estimateChatUsage(messages: ProviderChatMessage[], completion: string, model: string): TokenUsage {
+  const promptTokens = messages.reduce((total, message) => total + countTokens(message.content, model), 0);
+  const completionTokens = countTokens(completion, model);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+/** Chat completion that fails over along the requested provider's fallback chain. */
 export async function chatCompletion(
   params: ChatCompletionParams,
-): Promise<{ text: string; provider: ProviderName; model: string }> {
-  const targetProvider = resolveProvider(params.provider ?? null);
-  const { client, config } = getClient(targetProvider);
-  const model = params.model ?? config.chatModel;
-
-  const completion = await client.chat.completions.create({
-    model,
-    messages: params.messages,
-    temperature: params.temperature ?? 0.2,
-  });
+): Promise<{ text: string; provider: ProviderName; model: string; attempts: FailoverAttempt[]; usage: TokenUsage }> {
+  const requested = resolveProvider(params.provider ?? null);
+
+  const { result, provider, attempts } = await withFailover(
+    resolveFailoverChain(requested),
+    async (candidate) => {
+      const model = resolveChatModel(params, requested, candidate);
+      if (getProviderConfig(candidate).mock) {
+        const text = mockChatResponse(params.messages, model);
+        return { text, model, usage: estimateChatUsage(params.messages, text, model) };
+      }
+      const completion = await getClient(candidate).chat.completions.create(
+        {
+          model,
+          messages: params.messages,
+          temperature: params.temperature ?? 0.2,
+        },
+        { signal: params.signal }
+      );
+      const text = completion.choices[0]?.message?.content?.trim() ?? '';
+      return { text, model, usage: fromOpenAIUsage(completion.usage) ?? estimateChatUsage(params.messages, text, model) };
+    },
+    { label: 'Chat completion', operation: 'chat', maxRetries: CHAT_MAX_RETRIES, signal: params.signal }
+  );
 
-  const text = completion.choices[0]?.message?.content?.trim() ?? '';
-  return { text, provider: targetProvider, model };
+  params.usage?.record(provider, result.model, params.purpose ?? 'chat', result.usage);
+  return { text: result.text, provider, model: result.model, attempts, usage: result.usage };
 }
 
+async function* resumeStream(
+  first: IteratorResult<ChatCompletionChunk>,
+  iterator: AsyncIterator<ChatCompletionChunk>,
+  provider: ProviderName,
+  onFinish: (text: string, reported?: TokenUsage) => void,
+  signal?: AbortSignal
+): AsyncGenerator<ChatCompletionChunk> {
+  let text = '';
+  let reported: TokenUsage | undefined;
+  try {
+    for (let next = first; !next.done; next = await iterator.next()) {
+      text += next.value.choices?.[0]?.delta?.content ?? '';
+      // With stream_options.include_usage the last chunk carries usage and no choices.
+      reported = fromOpenAIUsage(next.value.usage) ?? reported;
+      yield next.value;
+    }
+  } catch (error) {
+    // Tokens have already reached the client, so a stream that dies now cannot fail over.
+    // A stream aborted through `signal` was stopped on purpose and says nothing about the provider.
+    if (!signal?.aborted) {
+      recordProviderFailure(provider, 'chat', error);
+    }
+    throw error;
+  } finally {
+    onFinish(text, reported);
+  }
+}
+
+/**
+ * Streaming chat completion with failover. A provider counts as answering once
+ * its first chunk arrives; failures before that move on to the next provider.
+ * `getUsage()` returns the usage once the stream has been consumed (or abandoned);
+ * providers that do not stream usage are estimated with the local tokenizer.
+ * Aborting `signal` cancels the upstream request; a stopped answer still records
+ * the usage of the tokens received so far.
+ */
 export async function chatCompletionStream(
   params: ChatCompletionParams,
-): Promise<{ stream: ChatCompletionStream; provider: ProviderName; model: string }> {
-  const targetProvider = resolveProvider(params.provider ?? null);
-  const { client, config } = getClient(targetProvider);
-  const model = params.model ?? config.chatModel;
-
-  const stream = await client.chat.completions.create({
-    model,
-    messages: params.messages,
-    temperature: params.temperature ?? 0.2,
-    stream: true,
-  });
+): Promise<{
+  stream: ChatCompletionStream;
+  provider: ProviderName;
+  model: string;
+  attempts: FailoverAttempt[];
+  getUsage: () => TokenUsage | undefined;
+}> {
+  const requested = resolveProvider(params.provider ?? null);
 
-  return { stream, provider: targetProvider, model };
+  const { result, provider, attempts } = await withFailover(
+    resolveFailoverChain(requested),
+    async (candidate) => {
+      const model = resolveChatModel(params, requested, candidate);
+      const stream = getProviderConfig(candidate).mock
+        ? mockChatStream(mockChatResponse(params.messages, model), model, params.signal)
+        : await getClient(candidate).chat.completions.create(
+            {
+              model,
+              messages: params.messages,
+              temperature: params.temperature ?? 0.2,
+              stream: true,
+              ...(getProviderDefinition(candidate).streamUsage === false ? {} : { stream_options: { include_usage: true } }),
+            },
+            { signal: params.signal }
+          );
+      const iterator = stream[Symbol.asyncIterator]();
+      return { first: await iterator.next(), iterator, model };
+    },
+    { label: 'Chat completion stream', operation: 'chat', maxRetries: CHAT_MAX_RETRIES, signal: params.signal }
+  );
+
+  let usage: TokenUsage | undefined;
+  const onFinish = (text: string, reported?: TokenUsage) => {
+    usage = reported ?? estimateChatUsage(params.messages, text, result.model);
+    params.usage?.record(provider, result.model, params.purpose ?? 'chat', usage);
+  };
+
+  return {
+    stream: resumeStream(result.first, result.iterator, provider, onFinish, params.signal),
+    provider,
+    model: result.model,
+    attempts,
+    getUsage: () => usage,
+  };
 }
 
 export type { ProviderName } from './types';
+export { UnknownProviderError } from './registry';
+export { ProviderUnavailableError, type FailoverAttempt } from './failover';
+export { UsageLedger, type RequestUsageSummary, type TokenUsage } from './usage';
 export type { ChatCompletionChunk } from 'openai/resources/chat/completions';
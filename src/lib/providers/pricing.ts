@@ -0,0 +1,82 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+const CONFIG_FILENAME = 'model-prices.json';
+const CONFIG_CANDIDATES = [
+  path.join(process.cwd(), CONFIG_FILENAME),
+  path.join(process.cwd(), 'data', CONFIG_FILENAME),
+];
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+const modelPriceSchema = z
+  .object({
+    /** Price per million prompt (or embedding input) tokens. */
+    input: z.number().nonnegative(),
+    /** Price per million completion tokens; defaults to the input price. */
+    output: z.number().nonnegative().optional(),
+  })
+  .strict();
+
+const priceTableSchema = z.object({
+  currency: z.string().trim().min(1).default('USD'),
+  /** Keyed by `provider:model` or plain model name; the provider-specific entry wins. */
+  models: z.record(z.string(), modelPriceSchema),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+export type PriceTable = z.infer<typeof priceTableSchema>;
+
+let priceTableCache: PriceTable | null = null;
+
+function readPriceTable(configPath: string | undefined): PriceTable {
+  const candidates = configPath ? [path.resolve(configPath)] : CONFIG_CANDIDATES;
+  for (const candidate of candidates) {
+    let raw: string;
+    try {
+      raw = readFileSync(candidate, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !configPath) {
+        continue;
+      }
+      throw error;
+    }
+
+    const parsed = priceTableSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid price table at ${candidate}: ${issues}`);
+    }
+    return parsed.data;
+  }
+
+  // No table configured: usage is still counted, costs are left out.
+  return { currency: 'USD', models: {} };
+}
+
+/** Price table from MODEL_PRICES_CONFIG, or model-prices.json in the project root or data/. */
+export function getPriceTable(): PriceTable {
+  priceTableCache ??= readPriceTable(process.env.MODEL_PRICES_CONFIG);
+  return priceTableCache;
+}
+
+export function findModelPrice(provider: string, model: string): ModelPrice | undefined {
+  const { models } = getPriceTable();
+  return models[`${provider}:${model}`] ?? models[model];
+}
+
+/** Cost of a call in the price table's currency, or undefined when the model has no price. */
+export function calculateCost(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens = 0
+): number | undefined {
+  const price = findModelPrice(provider, model);
+  if (!price) {
+    return undefined;
+  }
+  return (inputTokens * price.input + outputTokens * (price.output ?? price.input)) / TOKENS_PER_PRICE_UNIT;
+}
@@ -0,0 +1,152 @@
+const DEFAULT_MAX_RETRIES = Number(process.env.RATE_LIMIT_MAX_RETRIES ?? '6');
+const DEFAULT_BASE_DELAY_MS = Number(process.env.RATE_LIMIT_BASE_DELAY_MS ?? '1000');
+const MAX_DELAY_MS = 60_000;
+
+export interface RateLimits {
+  /** Requests per minute; 0 or unset means unlimited. */
+  rpm?: number;
+  /** Tokens per minute; 0 or unset means unlimited. */
+  tpm?: number;
+}
+
+export interface RetryOptions {
+  label: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  /** Errors worth retrying; defaults to HTTP 429 only. */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Continuous-refill token bucket holding up to one minute of budget. Requests
+ * larger than the whole bucket wait for a full bucket and then go through alone,
+ * so an oversized batch slows down instead of blocking forever.
+ */
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly perMinute: number) {
+    this.available = perMinute;
+  }
+
+  take(amount: number, signal?: AbortSignal): Promise<void> {
+    const next = this.queue.then(() => this.waitFor(Math.min(amount, this.perMinute), signal));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.perMinute, this.available + ((now - this.updatedAt) * this.perMinute) / 60_000);
+    this.updatedAt = now;
+  }
+
+  private async waitFor(amount: number, signal?: AbortSignal) {
+    this.refill();
+    while (this.available < amount) {
+      await sleep(Math.ceil(((amount - this.available) * 60_000) / this.perMinute), signal);
+      this.refill();
+    }
+    this.available -= amount;
+  }
+}
+
+/** Client-side RPM/TPM limiter shared by every caller of one provider. */
+export class RateLimiter {
+  private readonly requests: TokenBucket | null;
+  private readonly tokens: TokenBucket | null;
+
+  constructor(limits: RateLimits) {
+    this.requests = limits.rpm && limits.rpm > 0 ? new TokenBucket(limits.rpm) : null;
+    this.tokens = limits.tpm && limits.tpm > 0 ? new TokenBucket(limits.tpm) : null;
+  }
+
+  async acquire(tokens: number, signal?: AbortSignal) {
+    await this.requests?.take(1, signal);
+    await this.tokens?.take(tokens, signal);
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.requests || this.tokens);
+  }
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  if ((error as { status?: number }).status === 429) {
+    return true;
+  }
+
+  const message = typeof (error as { message?: unknown }).message === 'string' ? (error as { message: string }).message : '';
+  return /\b(?:status:? 429|429 too many requests)\b|rate limit/i.test(message);
+}
+
+function readRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: Headers | Record<string, string> } | null)?.headers;
+  const raw = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+  if (!raw) {
+    return undefined;
+  }
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Retries `operation` when it fails with HTTP 429 (or whatever `shouldRetry`
+ * accepts), honouring Retry-After when the error carries it and otherwise backing
+ * off exponentially with jitter. Other errors are rethrown immediately.
+ */
+export async function retryOnRateLimit<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const shouldRetry = options.shouldRetry ?? isRateLimitError;
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!shouldRetry(error) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const backoff = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** attempt);
+      const delay = readRetryAfterMs(error) ?? backoff / 2 + Math.random() * (backoff / 2);
+      const reason = isRateLimitError(error)
+        ? 'was rate limited (429)'
+        : `failed (${error instanceof Error ? error.message : String(error)})`;
+      console.warn(
+        `${options.label} ${reason}; retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxRetries})`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
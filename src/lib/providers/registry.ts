@@ -0,0 +1,242 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import type { ProviderName, ProviderOption } from './types';
+
+const CONFIG_FILENAME = 'providers.json';
+const CONFIG_CANDIDATES = [
+  path.join(process.cwd(), CONFIG_FILENAME),
+  path.join(process.cwd(), 'data', CONFIG_FILENAME),
+];
+const DEFAULT_PROVIDER = 'qwen';
+// The mock provider answers without a network; it is only offered when asked for.
+const MOCK_PROVIDER_ENABLED = /^(1|true|yes|on)$/i.test(process.env.MOCK_PROVIDER ?? '');
+// Fallbacks for providers whose entry does not list its own, e.g. `openai` to fail qwen over to OpenAI.
+const DEFAULT_FALLBACKS = (process.env.PROVIDER_FALLBACKS ?? '')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+const providerEntrySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9._-]*$/, 'must be lowercase letters, digits, ".", "_" or "-"'),
+    displayName: z.string().optional(),
+    /** `mock` answers locally with hashed embeddings and scripted or echoed chat; see mockProvider.ts. */
+    type: z.enum(['openai-compatible', 'mock']).optional(),
+    aliases: z.array(z.string()).optional(),
+    baseUrl: z.string().url().optional(),
+    baseUrlEnv: z.string().optional(),
+    /** Leave unset for endpoints that take no key, such as a local Ollama. */
+    apiKeyEnv: z.string().optional(),
+    /** Send the key in this header instead of `Authorization: Bearer`, e.g. `api-key` for Azure OpenAI. */
+    apiKeyHeader: z.string().optional(),
+    /** Query parameters added to every request, e.g. `{ "api-version": "2024-10-21" }` for Azure OpenAI. */
+    defaultQuery: z.record(z.string(), z.string()).optional(),
+    chatModel: z.string().optional(),
+    chatModelEnv: z.string().optional(),
+    embeddingModel: z.string().optional(),
+    embeddingModelEnv: z.string().optional(),
+    /** Texts per embeddings request; unset sends each call in one request. */
+    embeddingBatchSize: z.number().int().positive().optional(),
+    /** Set to false for endpoints that reject `stream_options`; streamed usage is then estimated locally. */
+    streamUsage: z.boolean().optional(),
+    /** Providers tried in order when this one is rate limited, failing or times out. */
+    fallbacks: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const providerConfigFileSchema = z.object({
+  defaultProvider: z.string().optional(),
+  providers: z.array(providerEntrySchema).min(1),
+});
+
+export type ProviderDefinition = z.infer<typeof providerEntrySchema> & { displayName: string };
+
+export interface ProviderRegistry {
+  /** Config file the extra providers came from, if any. */
+  path?: string;
+  defaultProvider: ProviderName;
+  providers: ProviderDefinition[];
+}
+
+export class UnknownProviderError extends Error {
+  constructor(value: string, known: string[]) {
+    super(`Unknown provider "${value}". Configured providers: ${known.join(', ')}.`);
+    this.name = 'UnknownProviderError';
+  }
+}
+
+const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+  {
+    name: 'openai',
+    displayName: 'OpenAI',
+    aliases: ['gpt', 'chatgpt'],
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrlEnv: 'OPENAI_API_URL',
+    baseUrl: 'https://api.openai.com/v1',
+    chatModelEnv: 'OPENAI_MODEL',
+    chatModel: 'gpt-4o-mini',
+    embeddingModelEnv: 'OPENAI_EMBEDDING_MODEL',
+    embeddingModel: 'text-embedding-3-small',
+  },
+  {
+    name: 'qwen',
+    displayName: 'Qwen (通义千问)',
+    aliases: ['qwen-plus', 'tongyi', '通义千问'],
+    apiKeyEnv: 'QWEN_API_KEY',
+    baseUrlEnv: 'QWEN_API_URL',
+    baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    chatModelEnv: 'QWEN_MODEL',
+    chatModel: 'qwen-max',
+    embeddingModelEnv: 'QWEN_EMBEDDING_MODEL',
+    embeddingModel: 'text-embedding-v4',
+    // DashScope's compatible mode accepts at most 10 inputs per embeddings request.
+    embeddingBatchSize: 10,
+  },
+  {
+    name: 'mock',
+    displayName: 'Mock (offline)',
+    type: 'mock',
+    aliases: ['stub', 'offline'],
+    chatModel: 'mock-chat',
+    embeddingModel: 'mock-embedding',
+  },
+];
+
+function readConfigFile(configPath: string | undefined): { path: string; raw: string } | null {
+  const candidates = configPath ? [path.resolve(configPath)] : CONFIG_CANDIDATES;
+  for (const candidate of candidates) {
+    try {
+      return { path: candidate, raw: readFileSync(candidate, 'utf8') };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !configPath) {
+        continue;
+      }
+      throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the registry from the built-in OpenAI, Qwen and mock entries plus PROVIDERS_CONFIG,
+ * or providers.json in the project root or data/. A file entry named like a built-in
+ * overrides its fields; any other name adds an OpenAI-compatible endpoint.
+ */
+export function loadProviderRegistry(
+  configPath: string | undefined = process.env.PROVIDERS_CONFIG
+): ProviderRegistry {
+  const providers = BUILTIN_PROVIDERS.map((provider) => ({ ...provider }));
+  const file = readConfigFile(configPath);
+  let fileDefault: string | undefined;
+
+  if (file) {
+    const parsed = providerConfigFileSchema.safeParse(JSON.parse(file.raw));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid provider config at ${file.path}: ${issues}`);
+    }
+
+    const seen = new Set<string>();
+    parsed.data.providers.forEach((entry) => {
+      if (seen.has(entry.name)) {
+        throw new Error(`Provider ${entry.name} is listed more than once in ${file.path}.`);
+      }
+      seen.add(entry.name);
+
+      const index = providers.findIndex((provider) => provider.name === entry.name);
+      if (index >= 0) {
+        providers[index] = { ...providers[index], ...entry, displayName: entry.displayName ?? providers[index].displayName };
+        return;
+      }
+
+      if (entry.type !== 'mock' && !entry.baseUrl && !entry.baseUrlEnv) {
+        throw new Error(`Provider ${entry.name} in ${file.path} needs a baseUrl or baseUrlEnv.`);
+      }
+      if (!entry.chatModel && !entry.chatModelEnv && !entry.embeddingModel && !entry.embeddingModelEnv) {
+        throw new Error(`Provider ${entry.name} in ${file.path} needs a chat or embedding model.`);
+      }
+      providers.push({ ...entry, displayName: entry.displayName ?? entry.name });
+    });
+    fileDefault = parsed.data.defaultProvider;
+  }
+
+  const registry: ProviderRegistry = { path: file?.path, defaultProvider: DEFAULT_PROVIDER, providers };
+  // An unknown default or fallback is a configuration error, not something to paper over.
+  registry.defaultProvider = findProviderDefinition(registry, process.env.PROVIDER ?? fileDefault ?? DEFAULT_PROVIDER).name;
+  providers.forEach((provider) => {
+    provider.fallbacks = (provider.fallbacks ?? DEFAULT_FALLBACKS)
+      .map((name) => findProviderDefinition(registry, name).name)
+      .filter((name, idx, names) => name !== provider.name && names.indexOf(name) === idx);
+  });
+  return registry;
+}
+
+let registryCache: ProviderRegistry | null = null;
+
+export function getProviderRegistry(): ProviderRegistry {
+  registryCache ??= loadProviderRegistry();
+  return registryCache;
+}
+
+function findProviderDefinition(registry: ProviderRegistry, value: string): ProviderDefinition {
+  const normalized = value.toLowerCase().trim();
+  const match = registry.providers.find(
+    (provider) =>
+      provider.name === normalized || provider.aliases?.some((alias) => alias.toLowerCase() === normalized)
+  );
+  if (!match) {
+    throw new UnknownProviderError(value, registry.providers.map((provider) => provider.name));
+  }
+  return match;
+}
+
+/** Looks up a provider by name or alias; empty values mean the default provider. */
+export function getProviderDefinition(value?: string | null): ProviderDefinition {
+  const registry = getProviderRegistry();
+  return findProviderDefinition(registry, value?.trim() ? value : registry.defaultProvider);
+}
+
+export function isMockProvider(provider: ProviderDefinition): boolean {
+  return provider.type === 'mock';
+}
+
+/**
+ * A provider is usable once its API key is set, or when it needs none. Mock
+ * providers need MOCK_PROVIDER=true unless one is the default provider.
+ */
+export function isProviderConfigured(provider: ProviderDefinition): boolean {
+  if (isMockProvider(provider)) {
+    return MOCK_PROVIDER_ENABLED || getProviderRegistry().defaultProvider === provider.name;
+  }
+  return !provider.apiKeyEnv || Boolean(process.env[provider.apiKeyEnv]);
+}
+
+/**
+ * The provider followed by its configured fallbacks, leaving out fallbacks whose
+ * API key is not set.
+ */
+export function resolveFailoverChain(value?: string | null): ProviderName[] {
+  const primary = getProviderDefinition(value);
+  const fallbacks = (primary.fallbacks ?? [])
+    .map((name) => getProviderDefinition(name))
+    .filter(isProviderConfigured)
+    .map((provider) => provider.name);
+  return [primary.name, ...fallbacks];
+}
+
+export function listProviderOptions(): ProviderOption[] {
+  return getProviderRegistry()
+    .providers.filter(isProviderConfigured)
+    .map((provider) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      chatModel: (provider.chatModelEnv && process.env[provider.chatModelEnv]) || provider.chatModel,
+      embeddingModel: (provider.embeddingModelEnv && process.env[provider.embeddingModelEnv]) || provider.embeddingModel,
+    }));
+}
@@ -0,0 +1,112 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+const ENCODING_RANKS = {
+  cl100k_base,
+  o200k_base,
+};
+
+// Longest prefix wins. Qwen's BPE vocabulary extends cl100k_base, so cl100k is the
+// closest pure-JS match; it slightly overcounts Chinese text, which keeps budgets safe.
+const MODEL_ENCODINGS: [prefix: string, encoding: TokenizerEncoding][] = [
+  ['gpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['gpt-4.5', 'o200k_base'],
+  ['gpt-5', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['text-embedding-3', 'cl100k_base'],
+  ['text-embedding-ada-002', 'cl100k_base'],
+];
+
+const MODEL_CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ['gpt-4o', 128_000],
+  ['gpt-4.1', 1_000_000],
+  ['gpt-5', 400_000],
+  ['o1', 200_000],
+  ['o3', 200_000],
+  ['o4', 200_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4', 8_192],
+  ['gpt-3.5-turbo', 16_385],
+  ['qwen-max', 32_768],
+  ['qwen-plus', 131_072],
+  ['qwen-turbo', 1_000_000],
+  ['qwen-long', 1_000_000],
+];
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+function findByPrefix<T>(table: [string, T][], model: string): T | undefined {
+  const normalized = model.toLowerCase().trim();
+  return table
+    .filter(([prefix]) => normalized.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+}
+
+export function resolveEncodingForModel(model?: string | null): TokenizerEncoding {
+  return (model && findByPrefix(MODEL_ENCODINGS, model)) || 'cl100k_base';
+}
+
+function getEncoder(model?: string | null): Tiktoken {
+  const encoding = resolveEncodingForModel(model);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(ENCODING_RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function encode(text: string, model?: string | null): number[] {
+  // Special-token strings in Confluence content are ordinary text, not control tokens.
+  return getEncoder(model).encode(text, [], []);
+}
+
+export function countTokens(text: string, model?: string | null): number {
+  return text ? encode(text, model).length : 0;
+}
+
+export function truncateToTokens(text: string, maxTokens: number, model?: string | null): string {
+  if (maxTokens <= 0) {
+    return '';
+  }
+
+  const tokens = encode(text, model);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  return getEncoder(model).decode(tokens.slice(0, maxTokens));
+}
+
+export function takeLastTokens(text: string, maxTokens: number, model?: string | null): string {
+  if (maxTokens <= 0) {
+    return '';
+  }
+
+  const tokens = encode(text, model);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  return getEncoder(model).decode(tokens.slice(-maxTokens));
+}
+
+/** Context window for a chat model; QA_CONTEXT_WINDOW_TOKENS overrides the built-in table. */
+export function getContextWindow(model?: string | null): number {
+  const override = Number(process.env.QA_CONTEXT_WINDOW_TOKENS);
+  if (Number.isFinite(override) && override > 0) {
+    return override;
+  }
+
+  return (model && findByPrefix(MODEL_CONTEXT_WINDOWS, model)) || DEFAULT_CONTEXT_WINDOW;
+}
@@ -1,14 +1,10 @@
-export type ProviderName = 'openai' | 'qwen';
+/** Name of a provider in the registry: the built-in `openai` and `qwen`, or an entry from providers.json. */
+export type ProviderName = string;
 
-export const PROVIDER_OPTIONS: ProviderName[] = ['openai', 'qwen'];
-
-export function normalizeProviderName(value?: string | null): ProviderName {
-  const normalized = (value ?? '').toLowerCase().trim();
-  if (normalized === 'qwen' || normalized === 'qwen-plus' || normalized === 'tongyi' || normalized === '通义千问') {
-    return 'qwen';
-  }
-  if (normalized === 'openai' || normalized === 'gpt' || normalized === 'chatgpt') {
-    return 'openai';
-  }
-  return 'qwen';
+/** A configured provider as listed by /api/providers for the UI. */
+export interface ProviderOption {
+  name: ProviderName;
+  displayName: string;
+  chatModel?: string;
+  embeddingModel?: string;
 }
@@ -0,0 +1,158 @@
+import { calculateCost, getPriceTable } from './pricing';
+import type { ProviderName } from './types';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Counted with the local tokenizer because the provider did not report usage. */
+  estimated?: boolean;
+}
+
+export interface ChatUsageEntry extends TokenUsage {
+  provider: ProviderName;
+  model: string;
+  /** What the call was for, e.g. `answer`, `query-rewrite` or `rerank`. */
+  purpose: string;
+  cost?: number;
+}
+
+/** Token totals and cost of one chat or QA request. */
+export interface RequestUsageSummary extends TokenUsage {
+  /** Sum of the priced calls, in `currency`; unset when no call had a price. */
+  cost?: number;
+  currency: string;
+  /** Models used by the request that have no entry in the price table. */
+  unpricedModels?: string[];
+  calls: ChatUsageEntry[];
+}
+
+export interface EmbeddingUsageEntry {
+  provider: ProviderName;
+  model: string;
+  tokens: number;
+  requests: number;
+  estimated?: boolean;
+  cost?: number;
+}
+
+export interface EmbeddingUsageSummary {
+  tokens: number;
+  requests: number;
+  cost?: number;
+  currency: string;
+  unpricedModels?: string[];
+  models: EmbeddingUsageEntry[];
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export function fromOpenAIUsage(usage: OpenAIUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+/**
+ * Collects the chat calls made while serving one request (query rewrite, LLM
+ * rerank, the answer itself) so the request can report its total usage and cost.
+ */
+export class UsageLedger {
+  private readonly calls: ChatUsageEntry[] = [];
+
+  record(provider: ProviderName, model: string, purpose: string, usage: TokenUsage) {
+    this.calls.push({
+      provider,
+      model,
+      purpose,
+      ...usage,
+      cost: calculateCost(provider, model, usage.promptTokens, usage.completionTokens),
+    });
+  }
+
+  summarize(): RequestUsageSummary {
+    const sum = (key: 'promptTokens' | 'completionTokens' | 'totalTokens') =>
+      this.calls.reduce((total, call) => total + call[key], 0);
+    const priced = this.calls.filter((call) => call.cost !== undefined);
+    const unpriced = [...new Set(this.calls.filter((call) => call.cost === undefined).map((call) => `${call.provider}:${call.model}`))];
+
+    return {
+      promptTokens: sum('promptTokens'),
+      completionTokens: sum('completionTokens'),
+      totalTokens: sum('totalTokens'),
+      ...(this.calls.some((call) => call.estimated) ? { estimated: true } : {}),
+      ...(priced.length > 0 ? { cost: priced.reduce((total, call) => total + (call.cost ?? 0), 0) } : {}),
+      currency: getPriceTable().currency,
+      ...(unpriced.length > 0 ? { unpricedModels: unpriced } : {}),
+      calls: [...this.calls],
+    };
+  }
+}
+
+// Process-wide embedding counters; a vectorize run reports the difference between two snapshots.
+const embeddingUsage = new Map<string, EmbeddingUsageEntry>();
+
+export function recordEmbeddingUsage(provider: ProviderName, model: string, tokens: number, estimated = false) {
+  const key = `${provider}:${model}`;
+  const entry = embeddingUsage.get(key) ?? { provider, model, tokens: 0, requests: 0 };
+  entry.tokens += tokens;
+  entry.requests += 1;
+  if (estimated) {
+    entry.estimated = true;
+  }
+  embeddingUsage.set(key, entry);
+}
+
+export function snapshotEmbeddingUsage(): EmbeddingUsageEntry[] {
+  return [...embeddingUsage.values()].map((entry) => ({ ...entry }));
+}
+
+/**
+ * Adds or subtracts per-model embedding usage, e.g. `combineEmbeddingUsage(now, start, -1)`
+ * for the usage since `start`. Models left with no requests are dropped.
+ */
+export function combineEmbeddingUsage(
+  base: EmbeddingUsageEntry[],
+  other: EmbeddingUsageEntry[],
+  sign: 1 | -1 = 1
+): EmbeddingUsageEntry[] {
+  const combined = new Map(base.map((entry) => [`${entry.provider}:${entry.model}`, { ...entry }]));
+  other.forEach((entry) => {
+    const key = `${entry.provider}:${entry.model}`;
+    const target = combined.get(key) ?? { provider: entry.provider, model: entry.model, tokens: 0, requests: 0 };
+    target.tokens += sign * entry.tokens;
+    target.requests += sign * entry.requests;
+    if (entry.estimated && sign === 1) {
+      target.estimated = true;
+    }
+    combined.set(key, target);
+  });
+  return [...combined.values()].filter((entry) => entry.requests > 0);
+}
+
+export function summarizeEmbeddingUsage(entries: EmbeddingUsageEntry[]): EmbeddingUsageSummary {
+  const models = entries.map((entry) => ({ ...entry, cost: calculateCost(entry.provider, entry.model, entry.tokens) }));
+  const priced = models.filter((entry) => entry.cost !== undefined);
+  const unpriced = models.filter((entry) => entry.cost === undefined).map((entry) => `${entry.provider}:${entry.model}`);
+
+  return {
+    tokens: models.reduce((total, entry) => total + entry.tokens, 0),
+    requests: models.reduce((total, entry) => total + entry.requests, 0),
+    ...(priced.length > 0 ? { cost: priced.reduce((total, entry) => total + (entry.cost ?? 0), 0) } : {}),
+    currency: getPriceTable().currency,
+    ...(unpriced.length > 0 ? { unpricedModels: unpriced } : {}),
+    models,
+  };
+}
+
+/** Formats an amount for logs, e.g. `0.0123 USD`. */
+export function formatCost(cost: number | undefined, currency: string): string {
+  return cost === undefined ? 'n/a' : `${cost.toFixed(4)} ${currency}`;
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { PageChunk } from '../../confluence/chunk';
+import { LexicalIndex, tokenizeForLexicalSearch } from '../bm25';
+
+// Search results carry the embedding model version, which needs a configured provider.
+process.env.PROVIDER = 'mock';
+
+function chunk(pageId: string, chunkIndex: number, content: string, title = `Page ${pageId}`): PageChunk {
+  const id = `${pageId}-${chunkIndex}`;
+  return { id, nodeId: id, pageId, chunkIndex, content, title, headingPath: [], headingPathString: '' } as unknown as PageChunk;
+}
+
+describe('tokenizeForLexicalSearch', () => {
+  test('keeps identifiers whole and adds their parts', () => {
+    assert.deepEqual(tokenizeForLexicalSearch('See ERR-1042 in core_banking'), [
+      'see',
+      'err-1042',
+      'err',
+      '1042',
+      'in',
+      'core_banking',
+      'core',
+      'banking',
+    ]);
+  });
+
+  test('splits Han runs into bigrams and keeps single characters', () => {
+    assert.deepEqual(tokenizeForLexicalSearch('支付网关 和 PROJ-7'), ['支付', '付网', '网关', '和', 'proj-7', 'proj', '7']);
+  });
+
+  test('returns nothing for punctuation only', () => {
+    assert.deepEqual(tokenizeForLexicalSearch(' -- !? '), []);
+  });
+});
+
+describe('LexicalIndex', () => {
+  const index = new LexicalIndex();
+  index.replacePageChunks('1', [
+    chunk('1', 0, 'The payment gateway returns ERR-1042 when the card issuer times out.'),
+    chunk('1', 1, 'Retry the payment after the issuer recovers.'),
+  ]);
+  index.replacePageChunks('2', [chunk('2', 0, 'Vacation days carry over into the next year.')]);
+  index.replacePageChunks('3', [chunk('3', 0, 'Payment payment payment reconciliation runs nightly for the payment ledger.')]);
+
+  test('ranks the chunk holding the exact identifier first', () => {
+    const results = index.search('What does ERR-1042 mean?', 3);
+    assert.equal(results[0]?.chunk.id, '1-0');
+    assert.ok(results.every((result) => result.score > 0));
+  });
+
+  test('scores higher term frequency higher and skips chunks without matches', () => {
+    const results = index.search('payment', 10);
+    assert.equal(results[0]?.chunk.id, '3-0');
+    assert.deepEqual(results.map((result) => result.chunk.id).sort(), ['1-0', '1-1', '3-0']);
+  });
+
+  test('returns nothing for a query without terms or matches', () => {
+    assert.deepEqual(index.search('?!'), []);
+    assert.deepEqual(index.search('kubernetes'), []);
+  });
+
+  test('tracks pages through replace and remove', () => {
+    const pages = new LexicalIndex(index.toJSON());
+    assert.equal(pages.hasPage('1'), true);
+
+    pages.replacePageChunks('1', [chunk('1', 0, 'Rewritten runbook')]);
+    assert.equal(pages.size, 3);
+    assert.deepEqual(pages.search('issuer'), []);
+
+    pages.removePage('1');
+    assert.equal(pages.hasPage('1'), false);
+    assert.equal(pages.size, 2);
+    assert.equal(pages.hasPage('2'), true);
+  });
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { RetrievedChunk, SearchResult } from '../../vectorstore/types';
+import { reciprocalRankFusion } from '../fusion';
+
+function results(ids: string[], scores: number[] = ids.map((_, idx) => 1 - idx / 10)): SearchResult[] {
+  return ids.map((id, idx) => ({ chunk: { id } as RetrievedChunk, score: scores[idx] }));
+}
+
+describe('reciprocalRankFusion', () => {
+  test('ranks chunks found by both retrievers above single-list hits', () => {
+    const fused = reciprocalRankFusion({ vector: results(['a', 'b', 'c']), lexical: results(['c', 'd']) });
+
+    assert.deepEqual(
+      fused.map((result) => result.chunk.id),
+      ['c', 'a', 'b', 'd']
+    );
+    assert.deepEqual(fused[0].sources, { vector: { rank: 3, score: 0.8 }, lexical: { rank: 1, score: 1 } });
+    assert.equal(fused[0].fusedScore, 1 / 63 + 1 / 61);
+  });
+
+  test('keeps the dense score, or 0 when only the lexical retriever found the chunk', () => {
+    const fused = reciprocalRankFusion({ lexical: results(['a'], [7.5]), vector: results(['a', 'b'], [0.42, 0.3]) });
+    const byId = new Map(fused.map((result) => [result.chunk.id, result]));
+
+    assert.equal(byId.get('a')?.score, 0.42);
+    assert.equal(reciprocalRankFusion({ lexical: results(['x'], [7.5]) })[0].score, 0);
+  });
+
+  test('breaks ties by the order the lists were given', () => {
+    const fused = reciprocalRankFusion({ vector: results(['a', 'b']), lexical: results(['b', 'a']) });
+
+    assert.equal(fused[0].fusedScore, fused[1].fusedScore);
+    assert.deepEqual(
+      fused.map((result) => result.chunk.id),
+      ['a', 'b']
+    );
+  });
+
+  test('uses k to flatten or sharpen rank differences', () => {
+    const [first, second] = reciprocalRankFusion({ vector: results(['a', 'b']) }, 1);
+    assert.equal(first.fusedScore, 1 / 2);
+    assert.equal(second.fusedScore, 1 / 3);
+  });
+
+  test('returns nothing for empty or missing lists', () => {
+    assert.deepEqual(reciprocalRankFusion({}), []);
+    assert.deepEqual(reciprocalRankFusion({ vector: [], lexical: undefined }), []);
+  });
+
+  test('passes a single list through in order', () => {
+    assert.deepEqual(
+      reciprocalRankFusion({ lexical: results(['x', 'y', 'z']) }).map((result) => result.chunk.id),
+      ['x', 'y', 'z']
+    );
+  });
+});
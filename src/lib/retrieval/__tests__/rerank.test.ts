@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { UsageLedger } from '../../providers/usage';
+import type { RetrievedChunk } from '../../vectorstore/types';
+import type { HybridSearchResult } from '../fusion';
+import { LexicalOverlapReranker, LlmReranker, parseLlmScores, rerankResults } from '../rerank';
+
+// The LLM reranker runs against the mock provider, which scores passages by term overlap.
+process.env.PROVIDER = 'mock';
+
+function candidate(id: string, content: string, score: number): HybridSearchResult {
+  return {
+    chunk: { id, title: 'Deployment runbook', content } as RetrievedChunk,
+    score,
+    fusedScore: score,
+    sources: { vector: { rank: 1, score } },
+  };
+}
+
+const CANDIDATES = [
+  candidate('staging', 'Staging deploys run automatically once the smoke tests pass.', 0.9),
+  candidate('rollback', 'Rollbacks redeploy the previous image tag and page the service owner.', 0.5),
+];
+
+const ids = (results: { chunk: { id: string } }[]) => results.map((result) => result.chunk.id);
+
+describe('parseLlmScores', () => {
+  test('reads the scores object out of surrounding prose and scales it to [0, 1]', () => {
+    assert.deepEqual(parseLlmScores('Here you go:\n```json\n{"scores": [10, 2.5, "7"]}\n```', 3), [1, 0.25, 0.7]);
+  });
+
+  test('clamps out-of-range and non-numeric scores', () => {
+    assert.deepEqual(parseLlmScores('{"scores": [14, -3, "high", null]}', 4), [1, 0, 0, 0]);
+  });
+
+  test('rejects replies without a usable scores array', () => {
+    assert.equal(parseLlmScores('Passage 2 is the most relevant.', 2), null);
+    assert.equal(parseLlmScores('{"scores": [8, 3,]}', 2), null);
+    assert.equal(parseLlmScores('{"ranking": [2, 1]}', 2), null);
+    assert.equal(parseLlmScores('{"scores": [8, 3, 1]}', 2), null);
+  });
+});
+
+describe('LlmReranker', () => {
+  test('reorders candidates by the judged scores and records the call', async () => {
+    const usage = new UsageLedger();
+    const reranked = await rerankResults(new LlmReranker(null, usage), 'previous image tag', CANDIDATES, 2);
+
+    assert.deepEqual(ids(reranked), ['rollback', 'staging']);
+    assert.deepEqual(
+      reranked.map((result) => [result.originalScore, result.rerankedScore]),
+      [
+        [0.5, 1],
+        [0.9, 0],
+      ]
+    );
+    assert.deepEqual(
+      usage.summarize().calls.map((call) => call.purpose),
+      ['rerank']
+    );
+  });
+
+  test('keeps the original order when the reply has the wrong number of scores', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    // A line starting with "[3] " reads as an extra passage, so the judge returns three scores.
+    const candidates = [CANDIDATES[0], candidate('rollback', 'Steps:\n[3] Redeploy the previous image tag.', 0.5)];
+
+    const reranked = await rerankResults(new LlmReranker(), 'previous image tag', candidates, 2);
+
+    assert.deepEqual(ids(reranked), ['staging', 'rollback']);
+    assert.deepEqual(
+      reranked.map((result) => result.score),
+      [0.9, 0.5]
+    );
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /unexpected response/);
+  });
+
+  test('keeps the original order when the chat call fails', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+
+    const reranked = await rerankResults(new LlmReranker('claude'), 'previous image tag', CANDIDATES, 2);
+
+    assert.deepEqual(ids(reranked), ['staging', 'rollback']);
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /LLM reranker failed; keeping retrieval scores: Unknown provider "claude"/);
+  });
+
+  test('skips the call when there are no candidates', async () => {
+    const usage = new UsageLedger();
+    assert.deepEqual(await new LlmReranker(null, usage).score('anything', []), []);
+    assert.deepEqual(usage.summarize().calls, []);
+  });
+});
+
+describe('LexicalOverlapReranker', () => {
+  test('blends the share of matched query terms with the dense score', async () => {
+    const scores = await new LexicalOverlapReranker(0.5).score('previous image tag', CANDIDATES);
+
+    assert.deepEqual(scores, [0.45, 0.75]);
+  });
+
+  test('matches terms in the title and heading path too', async () => {
+    const [score] = await new LexicalOverlapReranker(1).score('deployment checklist', [
+      { ...CANDIDATES[0], chunk: { ...CANDIDATES[0].chunk, headingPath: 'Checklist' } },
+    ]);
+
+    assert.equal(score, 1);
+  });
+
+  test('keeps the dense score when the query has no terms', async () => {
+    const scores = await new LexicalOverlapReranker(0.5).score('?!', [candidate('a', 'text', 1.4), candidate('b', 'text', 0.3)]);
+
+    assert.deepEqual(scores, [1, 0.3]);
+  });
+
+  test('cuts the reranked list to the limit', async () => {
+    const reranked = await rerankResults(new LexicalOverlapReranker(0.5), 'previous image tag', CANDIDATES, 1);
+
+    assert.deepEqual(ids(reranked), ['rollback']);
+  });
+});
@@ -0,0 +1,264 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { PageChunk } from '../confluence/chunk';
+import { buildChunkMetadata, metadataToRetrievedChunk } from '../vectorstore/metadata';
+import { matchesFilter, type RetrievalFilter } from '../vectorstore/filter';
+import type { ChunkMetadata, SearchResult } from '../vectorstore/types';
+import { namespaceDataPath } from '../vectorstore/namespaces';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+
+const CURRENT_INDEX_VERSION = 1;
+const INDEX_DIR = path.join(process.cwd(), 'data');
+const INDEX_FILENAME = 'lexical-index.json';
+const INDEX_PATH = path.join(INDEX_DIR, INDEX_FILENAME);
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Han runs are split into bigrams; everything else is kept as whole identifiers
+// (ERR-1042, core-banking, PROJ-123) plus their separator-delimited parts.
+const TOKEN_PATTERN = /\p{Script=Han}+|[\p{L}\p{N}]+(?:[-_.:/][\p{L}\p{N}]+)*/gu;
+const HAN_PATTERN = /^\p{Script=Han}+$/u;
+const PART_SEPARATOR = /[-_.:/]/;
+
+interface LexicalDocument {
+  metadata: ChunkMetadata;
+  termFrequencies: Record<string, number>;
+  length: number;
+}
+
+interface LexicalIndexFile {
+  version: number;
+  documents: Record<string, LexicalDocument>;
+}
+
+export function tokenizeForLexicalSearch(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const value = match[0];
+
+    if (HAN_PATTERN.test(value)) {
+      if (value.length === 1) {
+        tokens.push(value);
+        continue;
+      }
+      for (let i = 0; i < value.length - 1; i += 1) {
+        tokens.push(value.slice(i, i + 2));
+      }
+      continue;
+    }
+
+    const lower = value.toLowerCase();
+    tokens.push(lower);
+
+    if (PART_SEPARATOR.test(lower)) {
+      lower
+        .split(PART_SEPARATOR)
+        .filter(Boolean)
+        .forEach((part) => tokens.push(part));
+    }
+  }
+
+  return tokens;
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const token of tokens) {
+    counts[token] = (counts[token] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function buildDocument(chunk: PageChunk): LexicalDocument {
+  const metadata = buildChunkMetadata(chunk);
+  const tokens = tokenizeForLexicalSearch(
+    [chunk.title, chunk.attachmentFilename, chunk.headingPathString, chunk.content].filter(Boolean).join('\n')
+  );
+  return {
+    metadata,
+    termFrequencies: countTerms(tokens),
+    length: tokens.length,
+  };
+}
+
+/**
+ * BM25 index over the same chunks that are embedded into the vector store. It is
+ * persisted to data/lexical-index.json by buildKnowledgeBase and loaded by the QA
+ * runtime so exact identifiers (error codes, Jira keys, system names) can be
+ * matched even when dense retrieval misses them.
+ */
+export class LexicalIndex {
+  private documents: Record<string, LexicalDocument>;
+  /** Chunk IDs per page, so page lookups during a vectorize run do not scan every document. */
+  private readonly pageChunkIds = new Map<string, Set<string>>();
+  private documentFrequencies: Map<string, number> | null = null;
+  private averageLength = 0;
+
+  constructor(file?: LexicalIndexFile) {
+    this.documents = file?.documents ?? {};
+    for (const [id, doc] of Object.entries(this.documents)) {
+      this.trackChunk(doc.metadata.page_id, id);
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.documents).length;
+  }
+
+  hasPage(pageId: string): boolean {
+    return this.pageChunkIds.has(pageId);
+  }
+
+  replacePageChunks(pageId: string, chunks: PageChunk[]) {
+    this.removePage(pageId);
+    for (const chunk of chunks) {
+      this.documents[chunk.id] = buildDocument(chunk);
+      this.trackChunk(chunk.pageId, chunk.id);
+    }
+    this.documentFrequencies = null;
+  }
+
+  removePage(pageId: string) {
+    for (const id of this.pageChunkIds.get(pageId) ?? []) {
+      delete this.documents[id];
+    }
+    this.pageChunkIds.delete(pageId);
+    this.documentFrequencies = null;
+  }
+
+  search(query: string, topK = 5, filter?: RetrievalFilter): SearchResult[] {
+    const queryTerms = [...new Set(tokenizeForLexicalSearch(query))];
+    const documents = Object.values(this.documents);
+    if (queryTerms.length === 0 || documents.length === 0) {
+      return [];
+    }
+
+    const frequencies = this.getDocumentFrequencies();
+    const totalDocuments = documents.length;
+
+    const scored: SearchResult[] = [];
+    for (const doc of documents) {
+      if (!matchesFilter(doc.metadata, filter)) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFrequencies[term];
+        if (!tf) {
+          continue;
+        }
+        const df = frequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (totalDocuments - df + 0.5) / (df + 0.5));
+        const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (this.averageLength || 1));
+        score += idf * ((tf * (BM25_K1 + 1)) / norm);
+      }
+
+      if (score > 0) {
+        scored.push({ chunk: metadataToRetrievedChunk(doc.metadata), score });
+      }
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  toJSON(): LexicalIndexFile {
+    return {
+      version: CURRENT_INDEX_VERSION,
+      documents: this.documents,
+    };
+  }
+
+  private trackChunk(pageId: string, id: string) {
+    const ids = this.pageChunkIds.get(pageId) ?? new Set<string>();
+    ids.add(id);
+    this.pageChunkIds.set(pageId, ids);
+  }
+
+  private getDocumentFrequencies(): Map<string, number> {
+    if (this.documentFrequencies) {
+      return this.documentFrequencies;
+    }
+
+    const frequencies = new Map<string, number>();
+    let totalLength = 0;
+    const documents = Object.values(this.documents);
+
+    for (const doc of documents) {
+      totalLength += doc.length;
+      for (const term of Object.keys(doc.termFrequencies)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+    }
+
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+    this.documentFrequencies = frequencies;
+    return frequencies;
+  }
+}
+
+// Chunk IDs in the index must exist in the namespace it is fused with, so each namespace has its own.
+function resolveIndexPath(namespace?: string): string {
+  return namespace ? namespaceDataPath(namespace, INDEX_FILENAME) : INDEX_PATH;
+}
+
+export async function loadLexicalIndex(namespace?: string): Promise<LexicalIndex> {
+  try {
+    const raw = await fs.readFile(resolveIndexPath(namespace), 'utf8');
+    const parsed = JSON.parse(raw) as LexicalIndexFile;
+    if (parsed?.version !== CURRENT_INDEX_VERSION || !parsed.documents) {
+      return new LexicalIndex();
+    }
+    return new LexicalIndex(parsed);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new LexicalIndex();
+    }
+
+    console.warn('Failed to read lexical index. Rebuilding from scratch.', error);
+    return new LexicalIndex();
+  }
+}
+
+export async function saveLexicalIndex(index: LexicalIndex, namespace?: string): Promise<void> {
+  await writeFileAtomic(resolveIndexPath(namespace), JSON.stringify(index.toJSON()));
+}
+
+export async function clearLexicalIndex(namespace?: string): Promise<void> {
+  try {
+    await fs.unlink(resolveIndexPath(namespace));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+
+    throw error;
+  }
+}
+
+const cachedIndexes = new Map<string, { index: LexicalIndex; mtimeMs: number }>();
+
+// The QA runtime reuses the parsed index until scripts/vectorize.ts rewrites the file.
+export async function getLexicalIndex(namespace?: string): Promise<LexicalIndex | null> {
+  const indexPath = resolveIndexPath(namespace);
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(indexPath)).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      cachedIndexes.delete(indexPath);
+      return null;
+    }
+    throw error;
+  }
+
+  let cachedIndex = cachedIndexes.get(indexPath);
+  if (!cachedIndex || cachedIndex.mtimeMs !== mtimeMs) {
+    cachedIndex = { index: await loadLexicalIndex(namespace), mtimeMs };
+    cachedIndexes.set(indexPath, cachedIndex);
+  }
+
+  return cachedIndex.index;
+}
@@ -0,0 +1,162 @@
+import type { RetrievedChunk, SearchResult, VectorStore } from '../vectorstore/types';
+
+export type ContextExpansionMode = 'none' | 'section' | 'neighbors';
+
+const DEFAULT_NEIGHBOR_COUNT = Number(process.env.QA_CONTEXT_NEIGHBORS ?? '1');
+const DEFAULT_MAX_EXPANDED_CHUNKS = Number(process.env.QA_CONTEXT_EXPANSION_MAX_CHUNKS ?? '8');
+
+export interface ContextExpansionOptions {
+  neighbors?: number;
+  maxChunks?: number;
+  /** Leave out neighbouring chunks flagged by the PII scanner. */
+  excludePii?: boolean;
+}
+
+export function resolveContextExpansionMode(
+  value: string | undefined = process.env.QA_CONTEXT_EXPANSION
+): ContextExpansionMode {
+  const normalized = (value ?? '').toLowerCase().trim();
+  if (normalized === 'section' || normalized === 'neighbors') {
+    return normalized;
+  }
+  return 'none';
+}
+
+interface ExpansionRange {
+  prefix: string;
+  start: number;
+  end: number;
+}
+
+// Chunk IDs are `${pageId}-${chunkIndex}` (or `${pageId}-att-${attachmentId}-${chunkIndex}`),
+// so siblings can be addressed by swapping the trailing index.
+function chunkIdPrefix(chunk: RetrievedChunk): string | null {
+  const suffix = `-${chunk.chunkIndex}`;
+  return chunk.id.endsWith(suffix) ? chunk.id.slice(0, -suffix.length) : null;
+}
+
+function resolveRange(
+  chunk: RetrievedChunk,
+  mode: ContextExpansionMode,
+  neighbors: number,
+  maxChunks: number
+): ExpansionRange | null {
+  const prefix = chunkIdPrefix(chunk);
+  if (!prefix) {
+    return null;
+  }
+
+  let start = chunk.chunkIndex;
+  let end = chunk.chunkIndex;
+
+  if (mode === 'neighbors') {
+    start = Math.max(0, chunk.chunkIndex - neighbors);
+    end = chunk.chunkIndex + neighbors;
+  } else if (mode === 'section' && chunk.sectionStart !== undefined && chunk.sectionEnd !== undefined) {
+    start = chunk.sectionStart;
+    end = chunk.sectionEnd;
+  }
+
+  // Keep oversized sections centred on the matched chunk.
+  if (end - start + 1 > maxChunks) {
+    const before = Math.floor((maxChunks - 1) / 2);
+    start = Math.max(start, chunk.chunkIndex - before);
+    end = start + maxChunks - 1;
+  }
+
+  return { prefix, start, end };
+}
+
+function mergeChunks(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map((chunk, idx) => {
+      const previous = chunks[idx - 1];
+      const contiguous = previous && previous.chunkIndex === chunk.chunkIndex - 1;
+      return contiguous && chunk.overlapChars ? chunk.content.slice(chunk.overlapChars) : chunk.content;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Small-to-big retrieval: each selected chunk is replaced by its whole heading
+ * section or by its neighbouring chunks, fetched from the vector store. Results
+ * whose ranges overlap a better-ranked result on the same page are folded into it.
+ */
+export async function expandSearchResults<T extends SearchResult>(
+  store: VectorStore,
+  results: T[],
+  mode: ContextExpansionMode,
+  options: ContextExpansionOptions = {}
+): Promise<T[]> {
+  if (mode === 'none' || results.length === 0) {
+    return results;
+  }
+
+  const neighbors = Math.max(0, options.neighbors ?? DEFAULT_NEIGHBOR_COUNT);
+  const maxChunks = Math.max(1, options.maxChunks ?? DEFAULT_MAX_EXPANDED_CHUNKS);
+
+  const expansions: { result: T; range: ExpansionRange | null }[] = [];
+  for (const result of results) {
+    const range = resolveRange(result.chunk, mode, neighbors, maxChunks);
+    const existing = range
+      ? expansions.find(
+          (entry) =>
+            entry.range &&
+            entry.range.prefix === range.prefix &&
+            range.start <= entry.range.end + 1 &&
+            range.end >= entry.range.start - 1
+        )
+      : undefined;
+
+    if (existing?.range && range) {
+      existing.range.start = Math.min(existing.range.start, range.start);
+      existing.range.end = Math.max(existing.range.end, range.end);
+      continue;
+    }
+
+    expansions.push({ result, range });
+  }
+
+  const ids = new Set<string>();
+  expansions.forEach(({ range }) => {
+    if (!range) {
+      return;
+    }
+    for (let idx = range.start; idx <= range.end; idx += 1) {
+      ids.add(`${range.prefix}-${idx}`);
+    }
+  });
+
+  const fetched = new Map<string, RetrievedChunk>();
+  (await store.fetchChunks([...ids]))
+    .filter((chunk) => !(options.excludePii && chunk.piiFlag))
+    .forEach((chunk) => fetched.set(chunk.id, chunk));
+
+  return expansions.map(({ result, range }) => {
+    if (!range) {
+      return result;
+    }
+
+    const chunks: RetrievedChunk[] = [];
+    for (let idx = range.start; idx <= range.end; idx += 1) {
+      const id = `${range.prefix}-${idx}`;
+      const chunk = id === result.chunk.id ? result.chunk : fetched.get(id);
+      if (chunk) {
+        chunks.push(chunk);
+      }
+    }
+
+    if (chunks.length <= 1) {
+      return result;
+    }
+
+    return {
+      ...result,
+      chunk: {
+        ...result.chunk,
+        content: mergeChunks(chunks),
+        tokenEstimate: chunks.reduce((sum, chunk) => sum + chunk.tokenEstimate, 0),
+      },
+    };
+  });
+}
@@ -0,0 +1,50 @@
+import type { SearchResult } from '../vectorstore/types';
+
+const DEFAULT_RRF_K = 60;
+
+export type RetrieverName = 'vector' | 'lexical';
+
+export interface RetrieverHit {
+  rank: number;
+  score: number;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  fusedScore: number;
+  sources: Partial<Record<RetrieverName, RetrieverHit>>;
+}
+
+/**
+ * Merges ranked result lists with reciprocal rank fusion: each list contributes
+ * 1 / (k + rank) for every chunk it returned. `score` keeps the dense similarity
+ * when the vector retriever found the chunk so existing thresholds stay meaningful.
+ */
+export function reciprocalRankFusion(
+  lists: Partial<Record<RetrieverName, SearchResult[]>>,
+  k = DEFAULT_RRF_K
+): HybridSearchResult[] {
+  const fused = new Map<string, HybridSearchResult>();
+
+  (Object.entries(lists) as [RetrieverName, SearchResult[] | undefined][]).forEach(([retriever, results]) => {
+    results?.forEach((result, idx) => {
+      const rank = idx + 1;
+      const existing = fused.get(result.chunk.id);
+      const entry: HybridSearchResult = existing ?? {
+        chunk: result.chunk,
+        score: 0,
+        fusedScore: 0,
+        sources: {},
+      };
+
+      entry.fusedScore += 1 / (k + rank);
+      entry.sources[retriever] = { rank, score: result.score };
+      if (retriever === 'vector') {
+        entry.score = result.score;
+      }
+
+      fused.set(result.chunk.id, entry);
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.fusedScore - a.fusedScore);
+}
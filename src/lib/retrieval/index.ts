@@ -0,0 +1,5 @@
+export * from './bm25';
+export * from './fusion';
+export * from './rerank';
+export * from './queryRewrite';
+export * from './expansion';
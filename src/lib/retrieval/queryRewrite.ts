@@ -0,0 +1,63 @@
+import { chatCompletion, type ProviderName, type UsageLedger } from '../providers/modelProvider';
+
+const MAX_HISTORY_CHARS = Number(process.env.QA_REWRITE_HISTORY_CHARS ?? '4000');
+
+export const QUERY_REWRITE_ENABLED = !/^(0|false|no|off)$/i.test(process.env.QA_QUERY_REWRITE ?? '');
+
+const CONDENSE_SYSTEM_PROMPT = `You rewrite follow-up questions into standalone search queries for a Confluence knowledge base.
+- Use the conversation history only to resolve pronouns, ellipsis and implied subjects.
+- Keep identifiers, system names, error codes and environment names exactly as written.
+- Answer in the language of the follow-up question.
+- Respond with the rewritten query only, without quotes or explanations.`;
+
+export interface CondenseQueryOptions {
+  question: string;
+  chatHistory?: string | null;
+  provider?: ProviderName | string | null;
+  /** Records the rewrite call's token usage against the request. */
+  usage?: UsageLedger;
+}
+
+function trimHistory(chatHistory: string): string {
+  if (!Number.isFinite(MAX_HISTORY_CHARS) || MAX_HISTORY_CHARS <= 0 || chatHistory.length <= MAX_HISTORY_CHARS) {
+    return chatHistory;
+  }
+  return chatHistory.slice(chatHistory.length - MAX_HISTORY_CHARS);
+}
+
+/**
+ * Turns the chat history plus a follow-up ("what about staging?") into a standalone
+ * query for retrieval. Returns the original question when there is no history or
+ * the provider call fails, so retrieval never blocks on the rewrite.
+ */
+export async function condenseQuery(options: CondenseQueryOptions): Promise<string> {
+  const question = options.question.trim();
+  const chatHistory = options.chatHistory?.trim();
+  if (!chatHistory) {
+    return question;
+  }
+
+  try {
+    const { text } = await chatCompletion({
+      provider: options.provider,
+      usage: options.usage,
+      purpose: 'query-rewrite',
+      temperature: 0,
+      messages: [
+        { role: 'system', content: CONDENSE_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Conversation history:\n${trimHistory(chatHistory)}\n\nFollow-up question: ${question}\n\nStandalone query:`,
+        },
+      ],
+    });
+
+    const rewritten = text.split('\n')[0]?.replace(/^["'“”]+|["'“”]+$/g, '').trim();
+    return rewritten || question;
+  } catch (error) {
+    console.warn(
+      `Query rewrite failed; searching with the original question: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return question;
+  }
+}
@@ -0,0 +1,180 @@
+import { chatCompletion, type ProviderName, type UsageLedger } from '../providers/modelProvider';
+import { tokenizeForLexicalSearch } from './bm25';
+import type { HybridSearchResult } from './fusion';
+
+const LLM_CANDIDATE_PREVIEW_LENGTH = Number(process.env.QA_RERANK_PREVIEW_LENGTH ?? '800');
+const LEXICAL_OVERLAP_WEIGHT = Number(process.env.QA_RERANK_LEXICAL_WEIGHT ?? '0.5');
+
+export type RerankerName = 'none' | 'llm' | 'lexical';
+
+export interface RerankedResult extends HybridSearchResult {
+  originalScore: number;
+  rerankedScore?: number;
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  /** Returns one relevance score in [0, 1] per candidate, in candidate order. */
+  score(query: string, candidates: HybridSearchResult[]): Promise<number[]>;
+}
+
+export interface RerankerOptions {
+  provider?: ProviderName | string | null;
+  /** Records the LLM reranker's token usage against the request. */
+  usage?: UsageLedger;
+}
+
+export function resolveRerankerName(value: string | undefined = process.env.QA_RERANKER): RerankerName {
+  const normalized = (value ?? '').toLowerCase().trim();
+  if (normalized === 'llm' || normalized === 'lexical') {
+    return normalized;
+  }
+  return 'none';
+}
+
+function clampScore(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Local scorer: the share of distinct query terms found in the chunk, blended
+ * with the dense similarity so semantically close chunks are not discarded.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical' as const;
+
+  constructor(private readonly overlapWeight: number = clampScore(LEXICAL_OVERLAP_WEIGHT)) {}
+
+  async score(query: string, candidates: HybridSearchResult[]): Promise<number[]> {
+    const queryTerms = new Set(tokenizeForLexicalSearch(query));
+    if (queryTerms.size === 0) {
+      return candidates.map((candidate) => clampScore(candidate.score));
+    }
+
+    return candidates.map((candidate) => {
+      const chunkTerms = new Set(
+        tokenizeForLexicalSearch(`${candidate.chunk.title}\n${candidate.chunk.headingPath ?? ''}\n${candidate.chunk.content}`)
+      );
+      let matched = 0;
+      queryTerms.forEach((term) => {
+        if (chunkTerms.has(term)) {
+          matched += 1;
+        }
+      });
+
+      const overlap = matched / queryTerms.size;
+      return clampScore(this.overlapWeight * overlap + (1 - this.overlapWeight) * clampScore(candidate.score));
+    });
+  }
+}
+
+const LLM_RERANK_SYSTEM_PROMPT = `You are a search relevance judge. For each numbered passage, rate how well it helps answer the user's question on a scale from 0 (irrelevant) to 10 (directly answers it).
+Respond with JSON only, in the form {"scores": [<score for passage 1>, <score for passage 2>, ...]}, with exactly one score per passage.`;
+
+/**
+ * Reads the `{"scores": [...]}` object from the judge's reply and scales each score
+ * to [0, 1]. Returns null when there is no JSON object or the score count is wrong.
+ */
+export function parseLlmScores(text: string, expected: number): number[] | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(match[0]) as { scores?: unknown };
+    if (!Array.isArray(parsed.scores) || parsed.scores.length !== expected) {
+      return null;
+    }
+    return parsed.scores.map((value) => clampScore(Number(value) / 10));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks the chat model to judge every candidate in a single call. Falls back to the
+ * original retrieval scores when the response cannot be parsed.
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm' as const;
+
+  constructor(
+    private readonly provider?: ProviderName | string | null,
+    private readonly usage?: UsageLedger
+  ) {}
+
+  async score(query: string, candidates: HybridSearchResult[]): Promise<number[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const passages = candidates
+      .map((candidate, idx) => {
+        const content = candidate.chunk.content.length > LLM_CANDIDATE_PREVIEW_LENGTH
+          ? `${candidate.chunk.content.slice(0, LLM_CANDIDATE_PREVIEW_LENGTH)}…`
+          : candidate.chunk.content;
+        return `[${idx + 1}] ${candidate.chunk.title}${candidate.chunk.headingPath ? ` — ${candidate.chunk.headingPath}` : ''}\n${content}`;
+      })
+      .join('\n\n');
+
+    try {
+      const { text } = await chatCompletion({
+        provider: this.provider,
+        usage: this.usage,
+        purpose: 'rerank',
+        temperature: 0,
+        messages: [
+          { role: 'system', content: LLM_RERANK_SYSTEM_PROMPT },
+          { role: 'user', content: `Question: ${query}\n\nPassages:\n\n${passages}` },
+        ],
+      });
+
+      const scores = parseLlmScores(text, candidates.length);
+      if (scores) {
+        return scores;
+      }
+
+      console.warn('LLM reranker returned an unexpected response; keeping retrieval scores.');
+    } catch (error) {
+      console.warn(
+        `LLM reranker failed; keeping retrieval scores: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return candidates.map((candidate) => clampScore(candidate.score));
+  }
+}
+
+export function createReranker(name: RerankerName, options: RerankerOptions = {}): Reranker | null {
+  switch (name) {
+    case 'llm':
+      return new LlmReranker(options.provider, options.usage);
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    default:
+      return null;
+  }
+}
+
+export async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  candidates: HybridSearchResult[],
+  limit: number
+): Promise<RerankedResult[]> {
+  const scores = await reranker.score(query, candidates);
+
+  return candidates
+    .map((candidate, idx) => ({
+      ...candidate,
+      originalScore: candidate.score,
+      rerankedScore: scores[idx] ?? 0,
+      score: scores[idx] ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
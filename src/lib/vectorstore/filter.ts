@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import type { ChunkMetadata } from './types';
+
+const nonEmptyString = z.string().trim().min(1);
+
+export const retrievalFilterSchema = z
+  .object({
+    spaceKeys: z.array(nonEmptyString).max(50).optional(),
+    pageIds: z.array(nonEmptyString).max(200).optional(),
+    headings: z.array(nonEmptyString).max(50).optional(),
+    updatedAfter: nonEmptyString
+      .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'updatedAfter must be an ISO 8601 date' })
+      .optional(),
+  })
+  .strict();
+
+export type RetrievalFilter = z.infer<typeof retrievalFilterSchema> & {
+  /** Drop chunks the PII scanner flagged. Set by the server only; request bodies cannot carry it. */
+  excludePii?: boolean;
+};
+
+export function parseUpdatedAt(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+export function isEmptyFilter(filter?: RetrievalFilter | null): boolean {
+  if (!filter) {
+    return true;
+  }
+  return (
+    !filter.spaceKeys?.length &&
+    !filter.pageIds?.length &&
+    !filter.headings?.length &&
+    !filter.updatedAfter &&
+    !filter.excludePii
+  );
+}
+
+/** In-process equivalent of the Pinecone metadata filter, used by the local and lexical backends. */
+export function matchesFilter(metadata: ChunkMetadata, filter?: RetrievalFilter | null): boolean {
+  if (isEmptyFilter(filter) || !filter) {
+    return true;
+  }
+
+  if (filter.spaceKeys?.length && (!metadata.space_key || !filter.spaceKeys.includes(metadata.space_key))) {
+    return false;
+  }
+
+  if (filter.pageIds?.length && !filter.pageIds.includes(metadata.page_id)) {
+    return false;
+  }
+
+  if (filter.headings?.length && (!metadata.heading || !filter.headings.includes(metadata.heading))) {
+    return false;
+  }
+
+  if (filter.excludePii && metadata.pii_flag) {
+    return false;
+  }
+
+  const updatedAfter = parseUpdatedAt(filter.updatedAfter);
+  if (updatedAfter !== undefined) {
+    const updatedAt = metadata.updated_at_ts ?? parseUpdatedAt(metadata.updated_at);
+    if (updatedAt === undefined || updatedAt < updatedAfter) {
+      return false;
+    }
+  }
+
+  return true;
+}
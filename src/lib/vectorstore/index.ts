@@ -1 +1,6 @@
+export * from './types';
+export * from './filter';
 export * from './pineconeStore';
+export * from './localStore';
+export * from './namespaces';
+export * from './store';
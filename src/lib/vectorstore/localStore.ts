@@ -0,0 +1,279 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+import { embedTexts, embedText } from '../embeddings';
+import type { PageChunk } from '../confluence/chunk';
+import { buildChunkMetadata, metadataToRetrievedChunk } from './metadata';
+import { matchesFilter, type RetrievalFilter } from './filter';
+import { resolveBaseNamespace, type NamespaceTarget } from './namespaces';
+import type { ChunkMetadata, ChunkVectorReuse, RetrievedChunk, SearchResult, VectorStore } from './types';
+
+const CURRENT_STORE_VERSION = 1;
+const EMBED_BATCH_SIZE = 50;
+const STORE_DIR = path.join(process.cwd(), 'data', 'local-vectors');
+
+interface LocalVectorRecord {
+  values: number[];
+  metadata: ChunkMetadata;
+}
+
+interface LocalVectorFile {
+  version: number;
+  namespace: string;
+  records: Record<string, LocalVectorRecord>;
+}
+
+function sanitizeNamespace(namespace: string): string {
+  return namespace.replace(/[^a-zA-Z0-9._-]+/g, '_') || 'default';
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * File-backed vector store for laptops and CI. Vectors and chunk metadata are
+ * persisted as JSON under data/local-vectors and searched with brute-force cosine
+ * similarity, so it is only suitable for small knowledge bases.
+ */
+export class LocalVectorStore implements VectorStore {
+  private readonly namespace: string;
+  private readonly embedVersion?: string;
+  private readonly filePath: string;
+  private data: LocalVectorFile | null = null;
+  private loadedMtimeMs = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(target: NamespaceTarget = { namespace: resolveBaseNamespace('local') }) {
+    this.namespace = target.namespace;
+    this.embedVersion = target.embedVersion;
+    this.filePath = path.join(STORE_DIR, `${sanitizeNamespace(target.namespace)}.json`);
+  }
+
+  async ensureReady() {
+    await this.load();
+  }
+
+  async upsertChunks(chunks: PageChunk[]) {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const records: [string, LocalVectorRecord][] = [];
+    for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+      const embeddings = await embedTexts(batch.map((chunk) => chunk.content), null, { embedVersion: this.embedVersion });
+
+      embeddings.forEach((vector, idx) => {
+        const chunk = batch[idx];
+        records.push([chunk.id, { values: vector, metadata: buildChunkMetadata(chunk) }]);
+      });
+    }
+
+    await this.exclusive(async () => {
+      const data = await this.load();
+      records.forEach(([id, record]) => {
+        data.records[id] = record;
+      });
+      await this.persist(data);
+    });
+  }
+
+  async deletePageChunks(pageId: string) {
+    await this.exclusive(async () => {
+      const data = await this.load();
+      let removed = 0;
+
+      for (const [id, record] of Object.entries(data.records)) {
+        if (record.metadata.page_id === pageId) {
+          delete data.records[id];
+          removed += 1;
+        }
+      }
+
+      if (removed > 0) {
+        await this.persist(data);
+      }
+    });
+  }
+
+  async deleteChunks(ids: string[]) {
+    await this.exclusive(async () => {
+      const data = await this.load();
+      const existing = ids.filter((id) => data.records[id]);
+      if (existing.length === 0) {
+        return;
+      }
+
+      existing.forEach((id) => {
+        delete data.records[id];
+      });
+      await this.persist(data);
+    });
+  }
+
+  async updateChunkMetadata(chunks: PageChunk[]): Promise<string[]> {
+    return this.reuseChunkVectors(chunks.map((chunk) => ({ chunk, sourceId: chunk.id })));
+  }
+
+  async reuseChunkVectors(reuses: ChunkVectorReuse[]): Promise<string[]> {
+    if (reuses.length === 0) {
+      return [];
+    }
+
+    return this.exclusive(async () => {
+      const data = await this.load();
+      const missing: string[] = [];
+      const sources = reuses.map(({ sourceId }) => data.records[sourceId]?.values);
+
+      reuses.forEach(({ chunk }, idx) => {
+        const values = sources[idx];
+        if (values) {
+          data.records[chunk.id] = { values, metadata: buildChunkMetadata(chunk) };
+        } else {
+          missing.push(chunk.id);
+        }
+      });
+
+      if (missing.length < reuses.length) {
+        await this.persist(data);
+      }
+      return missing;
+    });
+  }
+
+  async search(query: string, topK = 5, filter?: RetrievalFilter): Promise<SearchResult[]> {
+    const data = await this.load();
+    const records = Object.values(data.records).filter((record) => matchesFilter(record.metadata, filter));
+    if (records.length === 0) {
+      return [];
+    }
+
+    const queryEmbedding = await embedText(query, null, { embedVersion: this.embedVersion });
+
+    return records
+      .map((record) => ({
+        chunk: metadataToRetrievedChunk(record.metadata),
+        score: cosineSimilarity(queryEmbedding, record.values),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async fetchChunks(ids: string[]): Promise<RetrievedChunk[]> {
+    const data = await this.load();
+    return ids
+      .map((id) => data.records[id])
+      .filter((record): record is LocalVectorRecord => Boolean(record))
+      .map((record) => metadataToRetrievedChunk(record.metadata));
+  }
+
+  getNamespace(): string {
+    return this.namespace;
+  }
+
+  async clearNamespace(): Promise<void> {
+    this.data = null;
+    this.loadedMtimeMs = 0;
+    try {
+      await fs.unlink(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private emptyFile(): LocalVectorFile {
+    return {
+      version: CURRENT_STORE_VERSION,
+      namespace: this.namespace,
+      records: {},
+    };
+  }
+
+  // Another process (e.g. scripts/vectorize.ts) may rewrite the file while the
+  // dev server is running, so reload whenever the modification time moves.
+  private async load(): Promise<LocalVectorFile> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.data ??= this.emptyFile();
+        return this.data;
+      }
+      throw error;
+    }
+
+    if (this.data && mtimeMs === this.loadedMtimeMs) {
+      return this.data;
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as LocalVectorFile;
+      this.data = parsed?.version === CURRENT_STORE_VERSION && parsed.records
+        ? parsed
+        : this.emptyFile();
+    } catch (error) {
+      console.warn(`Failed to read local vector store at ${this.filePath}. Starting empty.`, error);
+      this.data = this.emptyFile();
+    }
+
+    this.loadedMtimeMs = mtimeMs;
+    return this.data;
+  }
+
+  // Vectorize workers write concurrently; each read-modify-write of the file runs
+  // alone so one worker's changes are never persisted over another's.
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private async persist(data: LocalVectorFile) {
+    await writeFileAtomic(this.filePath, JSON.stringify(data));
+    this.data = data;
+    this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
+
+const storePromises = new Map<string, Promise<LocalVectorStore>>();
+
+export async function getLocalVectorStore(
+  target: NamespaceTarget = { namespace: resolveBaseNamespace('local') }
+): Promise<LocalVectorStore> {
+  const key = `${target.namespace}|${target.embedVersion ?? ''}`;
+  let storePromise = storePromises.get(key);
+  if (!storePromise) {
+    const store = new LocalVectorStore(target);
+    storePromise = (async () => {
+      await store.ensureReady();
+      return store;
+    })();
+    storePromises.set(key, storePromise);
+  }
+
+  return storePromise;
+}
@@ -0,0 +1,60 @@
+import { getEmbeddingModelVersion } from '../providers/modelProvider';
+import type { PageChunk } from '../confluence/chunk';
+import { parseUpdatedAt } from './filter';
+import type { ChunkMetadata, RetrievedChunk } from './types';
+
+export function buildChunkMetadata(chunk: PageChunk): ChunkMetadata {
+  return {
+    page_id: chunk.pageId,
+    node_id: chunk.nodeId,
+    page_title: chunk.title,
+    heading: chunk.heading,
+    heading_path: chunk.headingPathString,
+    space_key: chunk.spaceKey,
+    updated_at: chunk.updatedAt,
+    updated_at_ts: parseUpdatedAt(chunk.updatedAt),
+    etag: chunk.etag,
+    embed_version: chunk.embedVersion,
+    chunk_index: chunk.chunkIndex,
+    token_estimate: chunk.tokenEstimate,
+    source_url: chunk.sourceUrl,
+    pii_flag: chunk.piiFlag,
+    attachment_id: chunk.attachmentId,
+    attachment_filename: chunk.attachmentFilename,
+    attachment_url: chunk.attachmentUrl,
+    overlap_chars: chunk.overlapChars,
+    section_start: chunk.sectionStart,
+    section_end: chunk.sectionEnd,
+    part_index: chunk.partIndex,
+    part_count: chunk.partCount,
+    content: chunk.content,
+  };
+}
+
+export function metadataToRetrievedChunk(metadata: ChunkMetadata): RetrievedChunk {
+  return {
+    id: metadata.node_id,
+    nodeId: metadata.node_id,
+    pageId: metadata.page_id,
+    title: metadata.page_title,
+    heading: metadata.heading,
+    headingPath: metadata.heading_path,
+    content: metadata.content,
+    sourceUrl: metadata.source_url,
+    chunkIndex: metadata.chunk_index,
+    tokenEstimate: metadata.token_estimate,
+    embedVersion: metadata.embed_version ?? getEmbeddingModelVersion(),
+    updatedAt: metadata.updated_at,
+    etag: metadata.etag,
+    spaceKey: metadata.space_key,
+    piiFlag: Boolean(metadata.pii_flag),
+    attachmentId: metadata.attachment_id,
+    attachmentFilename: metadata.attachment_filename,
+    attachmentUrl: metadata.attachment_url,
+    overlapChars: metadata.overlap_chars,
+    sectionStart: metadata.section_start,
+    sectionEnd: metadata.section_end,
+    partIndex: metadata.part_index,
+    partCount: metadata.part_count,
+  };
+}
@@ -0,0 +1,130 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { writeFileAtomic } from '../../utils/atomicWrite';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const ACTIVE_NAMESPACE_PATH = path.join(DATA_DIR, 'active-namespace.json');
+const NAMESPACE_DATA_DIR = path.join(DATA_DIR, 'namespaces');
+const CURRENT_POINTER_VERSION = 1;
+
+/**
+ * Build into a namespace derived from the embedding model version instead of the
+ * configured namespace itself, so re-embedding with a new model never touches the
+ * vectors queries are served from. On by default.
+ */
+export const VERSIONED_NAMESPACES = !/^(0|false|no|off)$/i.test(process.env.VECTOR_NAMESPACE_VERSIONING ?? '');
+
+export type VectorStoreBackend = 'pinecone' | 'local';
+
+export interface NamespaceTarget {
+  namespace: string;
+  /** Embedding model version (`provider:model`) of the vectors in the namespace; unset means the configured model. */
+  embedVersion?: string;
+}
+
+export interface ActiveNamespace extends NamespaceTarget {
+  promotedAt?: string;
+  /** Namespace that was active before the last promote; rollback switches back to it. */
+  previous?: NamespaceTarget & { promotedAt?: string };
+}
+
+interface ActiveNamespaceFile {
+  version: number;
+  /** Local and Pinecone stores keep separate pointers. */
+  backends: Partial<Record<VectorStoreBackend, ActiveNamespace>>;
+}
+
+export function resolveVectorStoreBackend(value: string | undefined = process.env.VECTOR_STORE): VectorStoreBackend {
+  const normalized = (value ?? '').toLowerCase().trim();
+  if (!normalized || normalized === 'pinecone') {
+    return 'pinecone';
+  }
+  if (normalized === 'local' || normalized === 'file') {
+    return 'local';
+  }
+  throw new Error(`Unsupported VECTOR_STORE value "${value}". Use "pinecone" or "local".`);
+}
+
+/** The configured namespace: PINECONE_NAMESPACE, or LOCAL_VECTOR_NAMESPACE for the local store. */
+export function resolveBaseNamespace(backend: VectorStoreBackend = resolveVectorStoreBackend()): string {
+  const pineconeNamespace = process.env.PINECONE_NAMESPACE ?? 'default';
+  return backend === 'local' ? process.env.LOCAL_VECTOR_NAMESPACE ?? pineconeNamespace : pineconeNamespace;
+}
+
+export function versionedNamespace(embedVersion: string, base: string = resolveBaseNamespace()): string {
+  return `${base}--${embedVersion.toLowerCase().replace(/[^a-z0-9._-]+/g, '-')}`;
+}
+
+/** Namespace a vectorize run writes to for the given embedding model version. */
+export function resolveBuildNamespace(embedVersion: string): NamespaceTarget {
+  return VERSIONED_NAMESPACES
+    ? { namespace: versionedNamespace(embedVersion), embedVersion }
+    : { namespace: resolveBaseNamespace() };
+}
+
+/**
+ * Location of a per-namespace data file such as the vector cache or lexical index.
+ * The configured namespace keeps the original paths directly under data/.
+ */
+export function namespaceDataPath(namespace: string, fileName: string): string {
+  if (namespace === resolveBaseNamespace()) {
+    return path.join(DATA_DIR, fileName);
+  }
+  return path.join(NAMESPACE_DATA_DIR, namespace.replace(/[^a-zA-Z0-9._-]+/g, '_'), fileName);
+}
+
+/** Namespaces with local build data under data/namespaces, plus the configured namespace. */
+export async function listKnownNamespaces(): Promise<string[]> {
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(NAMESPACE_DATA_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return [...new Set([resolveBaseNamespace(), ...entries])].sort();
+}
+
+async function readPointerFile(): Promise<ActiveNamespaceFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(ACTIVE_NAMESPACE_PATH, 'utf8')) as ActiveNamespaceFile;
+    if (parsed?.version === CURRENT_POINTER_VERSION && parsed.backends) {
+      return parsed;
+    }
+    console.warn(`Ignoring unreadable active namespace pointer at ${ACTIVE_NAMESPACE_PATH}.`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return { version: CURRENT_POINTER_VERSION, backends: {} };
+}
+
+export async function loadActiveNamespace(
+  backend: VectorStoreBackend = resolveVectorStoreBackend()
+): Promise<ActiveNamespace | null> {
+  return (await readPointerFile()).backends[backend] ?? null;
+}
+
+export async function saveActiveNamespace(
+  active: ActiveNamespace,
+  backend: VectorStoreBackend = resolveVectorStoreBackend()
+): Promise<void> {
+  const file = await readPointerFile();
+  file.backends[backend] = active;
+  await writeFileAtomic(ACTIVE_NAMESPACE_PATH, `${JSON.stringify(file, null, 2)}\n`);
+}
+
+/**
+ * Namespace queries read from: the promoted namespace when one was promoted,
+ * otherwise the configured namespace embedded with the configured model.
+ */
+export async function resolveActiveNamespace(
+  backend: VectorStoreBackend = resolveVectorStoreBackend()
+): Promise<NamespaceTarget> {
+  const active = await loadActiveNamespace(backend);
+  return active
+    ? { namespace: active.namespace, embedVersion: active.embedVersion }
+    : { namespace: resolveBaseNamespace(backend) };
+}
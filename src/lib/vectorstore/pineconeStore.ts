@@ -1,7 +1,12 @@
 import { Pinecone, type Index } from '@pinecone-database/pinecone';
 import { File as NodeFile } from 'node:buffer';
-import { embedTexts, embedText, getEmbeddingModelVersion } from '../providers/modelProvider';
+import { embedTexts, embedText } from '../embeddings';
+import { retryOnRateLimit } from '../providers/rateLimit';
 import type { PageChunk } from '../confluence/chunk';
+import { buildChunkMetadata, metadataToRetrievedChunk } from './metadata';
+import { isEmptyFilter, parseUpdatedAt, type RetrievalFilter } from './filter';
+import { resolveBaseNamespace, type NamespaceTarget } from './namespaces';
+import type { ChunkMetadata, ChunkVectorReuse, RetrievedChunk, SearchResult, VectorStore } from './types';
 
 // Pinecone's client (via undici) expects a global File object when running under Node.
 // Next.js edge runtime already provides it, but the Node runtime in development may not.
@@ -12,7 +17,7 @@ if (typeof globalWithFile.File === 'undefined') {
 }
 
 const UPSERT_BATCH_SIZE = 50;
-const DEFAULT_NAMESPACE = process.env.PINECONE_NAMESPACE ?? 'default';
+const FETCH_BATCH_SIZE = 100;
 
 function isNotFoundError(error: unknown): boolean {
   if (!error || typeof error !== 'object') {
@@ -81,22 +86,33 @@ function parsePineconeHost(host: string, fallback?: { indexName?: string; projec
   }
 }
 
-type ChunkMetadata = {
-  page_id: string;
-  node_id: string;
-  page_title: string;
-  heading?: string;
-  heading_path?: string;
-  space_key?: string;
-  updated_at?: string;
-  etag?: string;
-  embed_version: string;
-  chunk_index: number;
-  token_estimate: number;
-  source_url?: string;
-  pii_flag: boolean;
-  content: string;
-};
+type PineconeFilter = Record<string, Record<string, unknown>>;
+
+function toPineconeFilter(filter?: RetrievalFilter): PineconeFilter | undefined {
+  if (isEmptyFilter(filter) || !filter) {
+    return undefined;
+  }
+
+  const result: PineconeFilter = {};
+  if (filter.spaceKeys?.length) {
+    result.space_key = { $in: filter.spaceKeys };
+  }
+  if (filter.pageIds?.length) {
+    result.page_id = { $in: filter.pageIds };
+  }
+  if (filter.headings?.length) {
+    result.heading = { $in: filter.headings };
+  }
+  if (filter.excludePii) {
+    result.pii_flag = { $ne: true };
+  }
+  const updatedAfter = parseUpdatedAt(filter.updatedAfter);
+  if (updatedAfter !== undefined) {
+    result.updated_at_ts = { $gte: updatedAfter };
+  }
+
+  return result;
+}
 
 type PineconeVector = {
   id: string;
@@ -104,39 +120,17 @@ type PineconeVector = {
   metadata?: ChunkMetadata;
 };
 
-export interface RetrievedChunk {
-  id: string;
-  nodeId: string;
-  pageId: string;
-  title: string;
-  heading?: string;
-  headingPath?: string;
-  content: string;
-  sourceUrl?: string;
-  chunkIndex: number;
-  tokenEstimate: number;
-  embedVersion: string;
-  updatedAt?: string;
-  etag?: string;
-  spaceKey?: string;
-  piiFlag: boolean;
-}
-
-export interface SearchResult {
-  chunk: RetrievedChunk;
-  score: number;
-}
-
-export class PineconeStore {
+export class PineconeStore implements VectorStore {
   private pinecone: Pinecone | null = null;
   private index: Index | null = null;
   private readonly indexName: string;
   private readonly namespace: string;
+  private readonly embedVersion?: string;
   private readonly environment?: string;
   private readonly projectId?: string;
   private readonly indexHost?: string;
 
-  constructor() {
+  constructor(target: NamespaceTarget = { namespace: resolveBaseNamespace('pinecone') }) {
     const explicitIndexName = process.env.PINECONE_INDEX_NAME ?? process.env.PINECONE_INDEX;
     const explicitProjectId = process.env.PINECONE_PROJECT_ID?.trim();
     const hostEnv = process.env.PINECONE_HOST ?? process.env.PINECONE_INDEX_HOST;
@@ -167,7 +161,8 @@ export class PineconeStore {
       this.projectId = explicitProjectId;
     }
 
-    this.namespace = DEFAULT_NAMESPACE;
+    this.namespace = target.namespace;
+    this.embedVersion = target.embedVersion;
   }
 
   async ensureReady() {
@@ -183,40 +178,25 @@ export class PineconeStore {
 
     for (let start = 0; start < chunks.length; start += UPSERT_BATCH_SIZE) {
       const batch = chunks.slice(start, start + UPSERT_BATCH_SIZE);
-      const embeddings = await embedTexts(batch.map((chunk) => chunk.content));
+      const embeddings = await embedTexts(batch.map((chunk) => chunk.content), null, { embedVersion: this.embedVersion });
 
       const vectors: PineconeVector[] = embeddings.map((vector, idx) => {
         const chunk = batch[idx];
         return {
           id: chunk.id,
           values: vector,
-          metadata: {
-            page_id: chunk.pageId,
-            node_id: chunk.nodeId,
-            page_title: chunk.title,
-            heading: chunk.heading,
-            heading_path: chunk.headingPathString,
-            space_key: chunk.spaceKey,
-            updated_at: chunk.updatedAt,
-            etag: chunk.etag,
-            embed_version: chunk.embedVersion,
-            chunk_index: chunk.chunkIndex,
-            token_estimate: chunk.tokenEstimate,
-            source_url: chunk.sourceUrl,
-            pii_flag: chunk.piiFlag,
-            content: chunk.content,
-          },
+          metadata: buildChunkMetadata(chunk),
         };
       });
 
-      await target.upsert(vectors);
+      await retryOnRateLimit(() => target.upsert(vectors), { label: 'Pinecone upsert' });
     }
   }
 
   async deletePageChunks(pageId: string) {
     const target = await this.getTargetIndex();
     try {
-      await target.deleteMany({ page_id: { $eq: pageId } });
+      await retryOnRateLimit(() => target.deleteMany({ page_id: { $eq: pageId } }), { label: 'Pinecone delete' });
     } catch (error) {
       if (isNotFoundError(error)) {
         return;
@@ -225,43 +205,129 @@ export class PineconeStore {
     }
   }
 
-  async search(query: string, topK = 5): Promise<SearchResult[]> {
+  async deleteChunks(ids: string[]) {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const target = await this.getTargetIndex();
+    for (let start = 0; start < ids.length; start += FETCH_BATCH_SIZE) {
+      try {
+        const batch = ids.slice(start, start + FETCH_BATCH_SIZE);
+        await retryOnRateLimit(() => target.deleteMany(batch), { label: 'Pinecone delete' });
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Pinecone's update call takes one record at a time, so fetch the stored values
+  // and re-upsert them with the new metadata in batches instead.
+  async updateChunkMetadata(chunks: PageChunk[]): Promise<string[]> {
+    return this.reuseChunkVectors(chunks.map((chunk) => ({ chunk, sourceId: chunk.id })));
+  }
+
+  async reuseChunkVectors(reuses: ChunkVectorReuse[]): Promise<string[]> {
+    if (reuses.length === 0) {
+      return [];
+    }
+
+    const target = await this.getTargetIndex();
+    const sourceIds = [...new Set(reuses.map(({ sourceId }) => sourceId))];
+    const sourceValues = new Map<string, number[]>();
+
+    // Fetch every source before upserting: a moved chunk may take over another source's ID.
+    for (let start = 0; start < sourceIds.length; start += FETCH_BATCH_SIZE) {
+      const batch = sourceIds.slice(start, start + FETCH_BATCH_SIZE);
+      let records: Awaited<ReturnType<Index['fetch']>>['records'] | undefined;
+      try {
+        ({ records } = await retryOnRateLimit(() => target.fetch(batch), { label: 'Pinecone fetch' }));
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+
+      batch.forEach((id) => {
+        const values = records?.[id]?.values;
+        if (values?.length) {
+          sourceValues.set(id, values);
+        }
+      });
+    }
+
+    const missing: string[] = [];
+    const vectors: PineconeVector[] = [];
+    reuses.forEach(({ chunk, sourceId }) => {
+      const values = sourceValues.get(sourceId);
+      if (values) {
+        vectors.push({ id: chunk.id, values, metadata: buildChunkMetadata(chunk) });
+      } else {
+        missing.push(chunk.id);
+      }
+    });
+
+    for (let start = 0; start < vectors.length; start += UPSERT_BATCH_SIZE) {
+      const batch = vectors.slice(start, start + UPSERT_BATCH_SIZE);
+      await retryOnRateLimit(() => target.upsert(batch), { label: 'Pinecone upsert' });
+    }
+
+    return missing;
+  }
+
+  async search(query: string, topK = 5, filter?: RetrievalFilter): Promise<SearchResult[]> {
     const target = await this.getTargetIndex();
-    const queryEmbedding = await embedText(query);
+    const queryEmbedding = await embedText(query, null, { embedVersion: this.embedVersion });
+    const pineconeFilter = toPineconeFilter(filter);
 
     const response = await target.query({
       vector: queryEmbedding,
       topK,
       includeMetadata: true,
+      ...(pineconeFilter ? { filter: pineconeFilter } : {}),
     });
 
     const matches = response.matches ?? [];
 
     return matches
       .filter((match) => match.metadata && typeof match.metadata === 'object')
-      .map((match) => {
-        const metadata = match.metadata as ChunkMetadata;
-        return {
-          chunk: {
-            id: metadata.node_id,
-            nodeId: metadata.node_id,
-            pageId: metadata.page_id,
-            title: metadata.page_title,
-            heading: metadata.heading,
-            headingPath: metadata.heading_path,
-            content: metadata.content,
-            sourceUrl: metadata.source_url,
-            chunkIndex: metadata.chunk_index,
-            tokenEstimate: metadata.token_estimate,
-            embedVersion: metadata.embed_version ?? getEmbeddingModelVersion(),
-            updatedAt: metadata.updated_at,
-            etag: metadata.etag,
-            spaceKey: metadata.space_key,
-            piiFlag: Boolean(metadata.pii_flag),
-          },
-          score: match.score ?? 0,
-        } as SearchResult;
+      .map((match) => ({
+        chunk: metadataToRetrievedChunk(match.metadata as ChunkMetadata),
+        score: match.score ?? 0,
+      }));
+  }
+
+  async fetchChunks(ids: string[]): Promise<RetrievedChunk[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const target = await this.getTargetIndex();
+    const chunks: RetrievedChunk[] = [];
+
+    for (let start = 0; start < ids.length; start += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(start, start + FETCH_BATCH_SIZE);
+      let records: Awaited<ReturnType<Index['fetch']>>['records'];
+      try {
+        ({ records } = await retryOnRateLimit(() => target.fetch(batch), { label: 'Pinecone fetch' }));
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          continue;
+        }
+        throw error;
+      }
+
+      batch.forEach((id) => {
+        const metadata = records?.[id]?.metadata;
+        if (metadata && typeof metadata === 'object') {
+          chunks.push(metadataToRetrievedChunk(metadata as ChunkMetadata));
+        }
       });
+    }
+
+    return chunks;
   }
 
   getNamespace(): string {
@@ -332,15 +398,20 @@ export class PineconeStore {
 
 }
 
-let storePromise: Promise<PineconeStore> | null = null;
+const storePromises = new Map<string, Promise<PineconeStore>>();
 
-export async function getPineconeStore(): Promise<PineconeStore> {
+export async function getPineconeStore(
+  target: NamespaceTarget = { namespace: resolveBaseNamespace('pinecone') }
+): Promise<PineconeStore> {
+  const key = `${target.namespace}|${target.embedVersion ?? ''}`;
+  let storePromise = storePromises.get(key);
   if (!storePromise) {
-    const store = new PineconeStore();
+    const store = new PineconeStore(target);
     storePromise = (async () => {
       await store.ensureReady();
       return store;
     })();
+    storePromises.set(key, storePromise);
   }
 
   return storePromise;
@@ -0,0 +1,14 @@
+import { getLocalVectorStore } from './localStore';
+import { resolveActiveNamespace, resolveVectorStoreBackend, type NamespaceTarget } from './namespaces';
+import { getPineconeStore } from './pineconeStore';
+import type { VectorStore } from './types';
+
+/**
+ * Returns the store for a namespace, by default the active one that queries are
+ * served from. Searches embed the query with the namespace's embedding model.
+ */
+export async function getVectorStore(target?: NamespaceTarget): Promise<VectorStore> {
+  const backend = resolveVectorStoreBackend();
+  const resolved = target ?? (await resolveActiveNamespace(backend));
+  return backend === 'local' ? getLocalVectorStore(resolved) : getPineconeStore(resolved);
+}
@@ -0,0 +1,89 @@
+import type { PageChunk } from '../confluence/chunk';
+import type { RetrievalFilter } from './filter';
+
+export type ChunkMetadata = {
+  page_id: string;
+  node_id: string;
+  page_title: string;
+  heading?: string;
+  heading_path?: string;
+  space_key?: string;
+  updated_at?: string;
+  /** Epoch milliseconds of updated_at; Pinecone range filters only work on numbers. */
+  updated_at_ts?: number;
+  etag?: string;
+  embed_version: string;
+  chunk_index: number;
+  token_estimate: number;
+  source_url?: string;
+  pii_flag: boolean;
+  attachment_id?: string;
+  attachment_filename?: string;
+  attachment_url?: string;
+  overlap_chars?: number;
+  section_start?: number;
+  section_end?: number;
+  part_index?: number;
+  part_count?: number;
+  content: string;
+};
+
+export interface RetrievedChunk {
+  id: string;
+  nodeId: string;
+  pageId: string;
+  title: string;
+  heading?: string;
+  headingPath?: string;
+  content: string;
+  sourceUrl?: string;
+  chunkIndex: number;
+  tokenEstimate: number;
+  embedVersion: string;
+  updatedAt?: string;
+  etag?: string;
+  spaceKey?: string;
+  piiFlag: boolean;
+  attachmentId?: string;
+  attachmentFilename?: string;
+  attachmentUrl?: string;
+  overlapChars?: number;
+  sectionStart?: number;
+  sectionEnd?: number;
+  partIndex?: number;
+  partCount?: number;
+}
+
+export interface SearchResult {
+  chunk: RetrievedChunk;
+  score: number;
+}
+
+export interface ChunkVectorReuse {
+  chunk: PageChunk;
+  /** ID the embedded vector is stored under; differs from chunk.id when an edit shifted the chunk. */
+  sourceId: string;
+}
+
+export interface VectorStore {
+  upsertChunks(chunks: PageChunk[]): Promise<void>;
+  deletePageChunks(pageId: string): Promise<void>;
+  /** Deletes chunks by ID; IDs that do not exist are ignored. */
+  deleteChunks(ids: string[]): Promise<void>;
+  /**
+   * Rewrites the metadata of already-embedded chunks, keeping their stored vectors.
+   * Returns the IDs that were not found, which the caller must embed instead.
+   */
+  updateChunkMetadata(chunks: PageChunk[]): Promise<string[]>;
+  /**
+   * Stores each chunk under its own ID with the vector held under `sourceId` and fresh
+   * metadata. Every source is read before anything is written, so one chunk may move
+   * into another's old ID. Returns the chunk IDs whose source was not found.
+   */
+  reuseChunkVectors(reuses: ChunkVectorReuse[]): Promise<string[]>;
+  search(query: string, topK?: number, filter?: RetrievalFilter): Promise<SearchResult[]>;
+  /** Looks up chunks by ID; IDs that do not exist are skipped. */
+  fetchChunks(ids: string[]): Promise<RetrievedChunk[]>;
+  clearNamespace(): Promise<void>;
+  getNamespace(): string;
+}
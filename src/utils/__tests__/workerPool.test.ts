@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runWithConcurrency } from '../workerPool';
+
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/** Worker whose calls stay in flight until released, so tests control the interleaving. */
+function controlledWorker() {
+  const pending = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  const started: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const worker = (item: number) =>
+    new Promise<void>((resolve, reject) => {
+      started.push(item);
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      const done = () => {
+        inFlight -= 1;
+        pending.delete(item);
+      };
+      pending.set(item, {
+        resolve: () => {
+          done();
+          resolve();
+        },
+        reject: (error) => {
+          done();
+          reject(error);
+        },
+      });
+    });
+
+  return {
+    worker,
+    started,
+    pending,
+    get maxInFlight() {
+      return maxInFlight;
+    },
+  };
+}
+
+describe('runWithConcurrency', () => {
+  test('keeps at most `concurrency` calls in flight and runs every item', async () => {
+    const pool = controlledWorker();
+    const run = runWithConcurrency([1, 2, 3, 4, 5], 2, pool.worker);
+
+    await flush();
+    assert.deepEqual(pool.started, [1, 2]);
+    while (pool.pending.size > 0) {
+      [...pool.pending.values()][0].resolve();
+      await flush();
+    }
+
+    await run;
+    assert.deepEqual(pool.started, [1, 2, 3, 4, 5]);
+    assert.equal(pool.maxInFlight, 2);
+  });
+
+  test('starts no new items after a failure and rethrows it once running calls finish', async () => {
+    const pool = controlledWorker();
+    let settled = false;
+    const run = runWithConcurrency([1, 2, 3, 4], 2, pool.worker).finally(() => {
+      settled = true;
+    });
+
+    await flush();
+    pool.pending.get(1)?.reject(new Error('item 1 failed'));
+    await flush();
+    assert.equal(settled, false, 'waits for item 2, which is still running');
+    assert.deepEqual(pool.started, [1, 2]);
+
+    pool.pending.get(2)?.reject(new Error('item 2 failed'));
+    await assert.rejects(run, /item 1 failed/);
+    assert.deepEqual(pool.started, [1, 2]);
+  });
+
+  test('stops starting items once the signal aborts', async () => {
+    const pool = controlledWorker();
+    const controller = new AbortController();
+    const run = runWithConcurrency([1, 2, 3], 1, pool.worker, controller.signal);
+
+    await flush();
+    controller.abort(new Error('cancelled'));
+    pool.pending.get(1)?.resolve();
+    await assert.rejects(run, /cancelled/);
+    assert.deepEqual(pool.started, [1]);
+  });
+
+  test('treats a concurrency below one as one and handles no items', async () => {
+    const pool = controlledWorker();
+    const run = runWithConcurrency([1, 2], 0, pool.worker);
+    await flush();
+    assert.deepEqual(pool.started, [1]);
+    pool.pending.get(1)?.resolve();
+    await flush();
+    pool.pending.get(2)?.resolve();
+    await run;
+
+    await runWithConcurrency([], 4, pool.worker);
+    assert.equal(pool.maxInFlight, 1);
+  });
+});
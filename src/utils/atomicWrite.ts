@@ -0,0 +1,23 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+let tempCounter = 0;
+
+/**
+ * Writes to a temporary file next to the target and renames it into place, so a
+ * crash mid-write leaves either the old file or the new one, never a truncated mix.
+ * Each call gets its own temp file, so concurrent writers of one target do not
+ * clobber each other's partial output; the last rename wins.
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  tempCounter += 1;
+  const tempPath = `${filePath}.${process.pid}.${tempCounter}.tmp`;
+  try {
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
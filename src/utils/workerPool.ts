@@ -0,0 +1,39 @@
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight. After the
+ * first failure (or an abort) no new items are started; calls already running are
+ * awaited and then the first error is rethrown, so shared state is never left
+ * half-written by a worker that is still going.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const runNext = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      if (signal?.aborted) {
+        failure = { error: signal.reason };
+        return;
+      }
+
+      const item = items[next];
+      next += 1;
+      try {
+        await worker(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, runNext));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+}